@@ -0,0 +1,301 @@
+import { loadBOBJ, type ModelData } from "./Model";
+import { loadGLTF } from "./GLTFLoader";
+import {
+	DEFAULT_MATERIAL_SLOT,
+	loadMaterialTextures,
+	MATERIAL_SOURCES,
+	type MaterialSource,
+	type MaterialTextures,
+} from "./Material";
+import type TextureLoader from "./TextureLoader";
+import loadHDR, { type HDRData } from "./utils/hdr";
+import type { ProgressCallback } from "./utils/fetch";
+import { LoadingTask } from "./Loading";
+
+export type ModelAssetSource = {
+	url: string;
+	// whether the first frame waits for the asset
+	required: boolean;
+	// keyed by material slot, DEFAULT_MATERIAL_SLOT for models without named materials
+	materials: { [material: string]: MaterialSource };
+};
+
+export type HDRAssetSource = {
+	url: string;
+	// whether the first frame waits for the asset
+	required: boolean;
+	// brightest value kept, to keep the sun from blowing out the lighting maps
+	maxComponent: number;
+};
+
+type AssetManifest = {
+	models: { [name: string]: ModelAssetSource };
+	hdrs: { [name: string]: HDRAssetSource };
+};
+
+/**
+ * Every asset the game loads by name
+ */
+export const ASSET_MANIFEST = {
+	models: {
+		player: {
+			url: "/monke-smooth.bobj",
+			required: false,
+			materials: { [DEFAULT_MATERIAL_SLOT]: MATERIAL_SOURCES.monke },
+		},
+		city: {
+			url: "/city.bobj",
+			required: true,
+			materials: {},
+		},
+	},
+	hdrs: {
+		sky: {
+			url: "/sky.hdr",
+			required: true,
+			maxComponent: 100.0,
+		},
+	},
+} satisfies AssetManifest;
+
+export type ModelAsset = keyof typeof ASSET_MANIFEST.models;
+export type HDRAsset = keyof typeof ASSET_MANIFEST.hdrs;
+
+export type AssetProgress = {
+	loaded: number;
+	failed: number;
+	total: number;
+};
+
+type AssetEntry = {
+	promise: Promise<object>;
+	refs: number;
+	// frees the asset's resources, once it's loaded
+	destroy: () => void;
+};
+
+/**
+ * Loads assets once per source and shares them between everything that acquires them. Each acquire adds a reference
+ * that's dropped with release, and an asset's GPU resources are destroyed when its last reference is released.
+ */
+export default class AssetManager {
+	private readonly device: GPUDevice;
+	private readonly textureLoader: TextureLoader;
+	private readonly entries = new Map<string, AssetEntry>();
+	// the entry key of each loaded asset, to find it from the asset on release
+	private readonly keys = new WeakMap<object, string>();
+	private readonly progressListeners = new Set<(progress: AssetProgress) => void>();
+	public readonly progress: AssetProgress = { loaded: 0, failed: 0, total: 0 };
+
+	constructor(device: GPUDevice, textureLoader: TextureLoader) {
+		this.device = device;
+		this.textureLoader = textureLoader;
+	}
+
+	/**
+	 * Loads a model from the manifest
+	 */
+	public model(name: ModelAsset): Promise<ModelData> {
+		const source = ASSET_MANIFEST.models[name];
+		return this.loadModel(source.url, source.materials, source.required);
+	}
+
+	/**
+	 * Loads an hdr from the manifest
+	 */
+	public hdr(name: HDRAsset): Promise<HDRData> {
+		const source = ASSET_MANIFEST.hdrs[name];
+		return this.loadHDR(source.url, source.maxComponent, source.required);
+	}
+
+	/**
+	 * Loads a .bobj or glTF model and the material maps of the given material slots
+	 * @param materials keyed by material slot, replacing the maps from the model file
+	 * @param required whether the first frame waits for the model
+	 */
+	public loadModel(
+		url: string,
+		materials: { [material: string]: MaterialSource } = {},
+		required = false,
+	): Promise<ModelData> {
+		// maps from material sources are shared with other models, while maps in glTF files are the model's own
+		const sharedTextures: GPUTexture[] = [];
+		return this.acquire(
+			`model ${url} ${JSON.stringify(materials)}`,
+			`Loading model ${url}`,
+			required,
+			async (onProgress) => {
+				const loadTexture = async (url: string, format: GPUTextureFormat) => {
+					const texture = await this.loadTexture(url, format);
+					sharedTextures.push(texture);
+					return texture;
+				};
+				// material textures that fail to load are left out, so this doesn't reject
+				const texturesLoad = Promise.all(
+					Object.entries(materials).map(
+						async ([slot, source]) => [slot, await loadMaterialTextures(loadTexture, source)] as const,
+					),
+				);
+				let data: ModelData;
+				try {
+					data = await (/\.(gltf|glb)$/i.test(new URL(url, location.href).pathname)
+						? loadGLTF(this.device, this.textureLoader, url, onProgress)
+						: loadBOBJ(this.device, url, onProgress));
+				} catch (err) {
+					// the destroy callback only runs for loaded models, so the shared textures are released here
+					await texturesLoad;
+					for (const texture of sharedTextures) {
+						this.release(texture);
+					}
+					throw err;
+				}
+				const textures = await texturesLoad;
+				const overrides: { [material: string]: MaterialTextures } = Object.fromEntries(textures);
+				const merged = { ...data.textures, ...overrides };
+				// the model's own maps of overridden slots are destroyed, unless another slot shares their image
+				const kept = new Set(Object.values(merged).flatMap((slotTextures) => Object.values(slotTextures)));
+				for (const slot of Object.keys(overrides)) {
+					for (const texture of Object.values(data.textures[slot] ?? {})) {
+						if (!kept.has(texture)) {
+							texture.destroy();
+						}
+					}
+				}
+				data.textures = merged;
+				return data;
+			},
+			(data: ModelData) => {
+				data.vertexBuffer.destroy();
+				data.indexBuffer.destroy();
+				for (const textures of Object.values(data.textures)) {
+					for (const texture of Object.values(textures as MaterialTextures)) {
+						if (!sharedTextures.includes(texture)) {
+							texture.destroy();
+						}
+					}
+				}
+				for (const texture of sharedTextures) {
+					this.release(texture);
+				}
+			},
+		);
+	}
+
+	/**
+	 * Loads an image into a texture with a full mip chain
+	 */
+	public loadTexture(url: string, format: GPUTextureFormat): Promise<GPUTexture> {
+		return this.acquire(
+			`texture ${format} ${url}`,
+			`Loading texture ${url}`,
+			false,
+			() => this.textureLoader.load(url, format),
+			(texture: GPUTexture) => texture.destroy(),
+		);
+	}
+
+	/**
+	 * @param required whether the first frame waits for the hdr
+	 */
+	public loadHDR(url: string, maxComponent: number, required = false): Promise<HDRData> {
+		return this.acquire(
+			`hdr ${url} ${maxComponent}`,
+			`Loading ${url}`,
+			required,
+			(onProgress) => loadHDR(url, maxComponent, onProgress),
+			() => {},
+		);
+	}
+
+	/**
+	 * Adds a reference to a loaded asset, for another owner that releases it separately. Does nothing for assets
+	 * that weren't loaded by this manager.
+	 */
+	public retain(asset: object) {
+		const key = this.keys.get(asset);
+		const entry = key !== undefined ? this.entries.get(key) : undefined;
+		if (entry) {
+			entry.refs++;
+		}
+	}
+
+	/**
+	 * Drops a reference to an asset, destroying it when none are left
+	 */
+	public release(asset: object) {
+		const key = this.keys.get(asset);
+		const entry = key !== undefined ? this.entries.get(key) : undefined;
+		if (!key || !entry) {
+			return;
+		}
+		entry.refs--;
+		if (entry.refs <= 0) {
+			this.entries.delete(key);
+			this.keys.delete(asset);
+			entry.destroy();
+		}
+	}
+
+	/**
+	 * Calls the listener with the progress now and whenever an asset starts or finishes loading
+	 * @returns a function that removes the listener
+	 */
+	public onProgress(listener: (progress: AssetProgress) => void): () => void {
+		this.progressListeners.add(listener);
+		listener(this.progress);
+		return () => this.progressListeners.delete(listener);
+	}
+
+	/**
+	 * @param label shown on the loading overlay
+	 */
+	private acquire<T extends object>(
+		key: string,
+		label: string,
+		required: boolean,
+		load: (onProgress: ProgressCallback) => Promise<T>,
+		destroy: (asset: T) => void,
+	): Promise<T> {
+		let entry = this.entries.get(key);
+		if (!entry) {
+			this.updateProgress(0, 0, 1);
+			const task = new LoadingTask(label, required);
+			const promise = load((loaded, total) => task.progress(loaded, total)).then(
+				(asset) => {
+					this.keys.set(asset, key);
+					this.updateProgress(1, 0, 0);
+					task.finish();
+					return asset;
+				},
+				(err) => {
+					task.fail(err);
+					// failed loads aren't cached, so they're retried on the next acquire
+					if (this.entries.get(key) === entry) {
+						this.entries.delete(key);
+					}
+					this.updateProgress(0, 1, 0);
+					throw err;
+				},
+			);
+			entry = {
+				promise: promise,
+				refs: 0,
+				destroy: () => {
+					promise.then(destroy, () => {});
+				},
+			};
+			this.entries.set(key, entry);
+		}
+		entry.refs++;
+		return entry.promise as Promise<T>;
+	}
+
+	private updateProgress(loaded: number, failed: number, total: number) {
+		this.progress.loaded += loaded;
+		this.progress.failed += failed;
+		this.progress.total += total;
+		for (const listener of this.progressListeners) {
+			listener(this.progress);
+		}
+	}
+}
@@ -8,6 +8,10 @@ type CascadeTransform = {
 
 export default class Camera {
 	public position = vec3.create();
+	// position at the previous simulation step, blended with position by the interpolation alpha
+	public readonly previousPosition = vec3.create();
+	// interpolated position that the view is rendered from
+	public readonly eye = vec3.create();
 	public fov = 85;
 	public near = 0.1;
 	public far = 300.0;
@@ -57,6 +61,7 @@ export default class Camera {
 
 	constructor(canvas: HTMLCanvasElement) {
 		this.position[1] = 2.0;
+		vec3.copy(this.position, this.previousPosition);
 		this.cascadeMatrices = SHADOW_SETTINGS.cascades.map((_) => {
 			return {
 				view: mat4.create(),
@@ -67,7 +72,12 @@ export default class Camera {
 		this.update(canvas);
 	}
 
-	public update(canvas: HTMLCanvasElement) {
+	/**
+	 * @param alpha how far the frame is between the previous and latest simulation steps
+	 */
+	public update(canvas: HTMLCanvasElement, alpha: number = 1.0) {
+		vec3.lerp(this.previousPosition, this.position, alpha, this.eye);
+
 		this.forward[0] = Math.cos(this.yaw - Math.PI / 2.0);
 		this.forward[1] = Math.tan(this.pitch);
 		this.forward[2] = Math.sin(this.yaw - Math.PI / 2.0);
@@ -84,12 +94,12 @@ export default class Camera {
 			this.far,
 			this.projMatrix,
 		);
-		mat4.lookAt(this.position, vec3.add(this.position, this.forward, vec3.create()), this.up, this.viewMatrix);
+		mat4.lookAt(this.eye, vec3.add(this.eye, this.forward, vec3.create()), this.up, this.viewMatrix);
 		mat4.mul(this.projMatrix, this.viewMatrix, this.viewProjMatrix);
 		mat4.invert(this.projMatrix, this.projMatrixInverse);
 
-		if (vec3.distSq(this.stablePosition, this.position) > 0.01) {
-			vec3.copy(this.position, this.stablePosition);
+		if (vec3.distSq(this.stablePosition, this.eye) > 0.01) {
+			vec3.copy(this.eye, this.stablePosition);
 		}
 
 		mat4.lookAt(this.stablePosition, vec3.add(this.stablePosition, this.forward, vec3.create()), this.up, this.stableViewMatrix);
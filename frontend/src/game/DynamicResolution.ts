@@ -0,0 +1,66 @@
+import { RESOLUTION_SETTINGS } from "./Renderer";
+
+// fraction of the way the smoothed frame time moves towards each new frame's time
+const SMOOTHING = 0.1;
+// scales are rounded to steps of this, so small changes in frame time don't rebuild the screen textures
+const SCALE_STEP = 0.05;
+
+/**
+ * Picks the fraction of the render scale the scene is drawn at, lowering it while frames take longer than the target
+ * and raising it again once they're back under
+ */
+export default class DynamicResolution {
+	public scale = 1.0;
+	private smoothedTime = NaN;
+	private lastChange = -Infinity;
+
+	/**
+	 * @param now the current time, in ms
+	 * @param frameTime the gpu time of the last timed frame, or the time since the last frame without gpu timings, in ms
+	 * @param gpuTimed whether frameTime is gpu time. The time between frames is held at the display's refresh interval
+	 * by vsync, so it doesn't show how much headroom is left and the scale is only raised one step at a time.
+	 * @returns whether the scale changed
+	 */
+	public update(now: number, frameTime: number, gpuTimed: boolean): boolean {
+		if (!RESOLUTION_SETTINGS.dynamic) {
+			this.smoothedTime = NaN;
+			return this.setScale(1.0, now);
+		}
+
+		this.smoothedTime = Number.isNaN(this.smoothedTime)
+			? frameTime
+			: this.smoothedTime + (frameTime - this.smoothedTime) * SMOOTHING;
+		if (now - this.lastChange < RESOLUTION_SETTINGS.adjustInterval) {
+			return false;
+		}
+
+		// the frame cost grows with the pixel count, the square of the scale
+		const target = RESOLUTION_SETTINGS.targetFrameTime;
+		if (this.smoothedTime > target * (1.0 + RESOLUTION_SETTINGS.tolerance)) {
+			return this.setScale(this.scale * Math.sqrt(target / this.smoothedTime), now);
+		}
+		if (gpuTimed && this.smoothedTime < target * RESOLUTION_SETTINGS.headroom) {
+			const scale = this.scale * Math.sqrt((target * RESOLUTION_SETTINGS.headroom) / this.smoothedTime);
+			return this.setScale(Math.min(scale, this.scale + SCALE_STEP * 2), now);
+		}
+		if (!gpuTimed && this.smoothedTime <= target * (1.0 + RESOLUTION_SETTINGS.tolerance)) {
+			return this.setScale(this.scale + SCALE_STEP, now);
+		}
+		return false;
+	}
+
+	private setScale(scale: number, now: number): boolean {
+		const rounded = Math.min(
+			1.0,
+			Math.max(RESOLUTION_SETTINGS.minScale, Math.round(scale / SCALE_STEP) * SCALE_STEP),
+		);
+		if (Math.abs(rounded - this.scale) < SCALE_STEP / 2) {
+			return false;
+		}
+		this.scale = rounded;
+		this.lastChange = now;
+		// the new resolution's frame times start over
+		this.smoothedTime = NaN;
+		return true;
+	}
+}
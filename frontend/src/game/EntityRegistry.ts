@@ -0,0 +1,182 @@
+import { quat, vec3, type Quat, type Vec3 } from "wgpu-matrix";
+import type Model from "./Model";
+import type { ModelData } from "./Model";
+import type Renderer from "./Renderer";
+import { EntityEvent, NO_CLIENT_ID, type EntitySnapshot, type Snapshot } from "./Protocol";
+import { ServerClock, SnapshotBuffer } from "./Interpolation";
+
+const PLAYER_MODEL = "player";
+
+export type Entity = {
+	readonly id: number;
+	readonly position: Vec3;
+	readonly rotation: Quat;
+	readonly velocity: Vec3;
+	readonly buffer: SnapshotBuffer;
+	despawnTime: number;
+	model: Model | null;
+};
+
+/**
+ * Networked entities keyed by the server's entity id, kept in sync with the snapshots received from the worker.
+ * Each remote entity owns a model instance in the renderer, while the local player's entity is tracked but not drawn.
+ * Snapshots are buffered per entity and sampled slightly in the past, so remote entities move smoothly
+ * regardless of the server's tick rate.
+ */
+export default class EntityRegistry {
+	private readonly renderer: Renderer;
+	private readonly entities = new Map<number, Entity>();
+	public readonly clock = new ServerClock();
+	private modelData: ModelData | null = null;
+	public localId = NO_CLIENT_ID;
+
+	constructor(renderer: Renderer) {
+		this.renderer = renderer;
+
+		renderer.assets
+			.model(PLAYER_MODEL)
+			.then((data) => {
+				this.modelData = data;
+				for (const entity of this.entities.values()) {
+					this.attachModel(entity);
+				}
+			})
+			.catch((err) => {
+				console.error(err);
+			});
+	}
+
+	public get(id: number): Entity | undefined {
+		return this.entities.get(id);
+	}
+
+	public values(): IterableIterator<Entity> {
+		return this.entities.values();
+	}
+
+	/**
+	 * @param localTime the performance.now() time the snapshot arrived at
+	 */
+	public applySnapshot(snapshot: Snapshot, localTime: number) {
+		this.clock.onSnapshot(snapshot.serverTime, localTime);
+		for (const state of snapshot.entities) {
+			switch (state.event) {
+				case EntityEvent.Spawn:
+				case EntityEvent.Update:
+					this.spawnOrUpdate(state, snapshot.serverTime);
+					break;
+				case EntityEvent.Despawn: {
+					const entity = this.entities.get(state.id);
+					if (entity) {
+						entity.despawnTime = snapshot.serverTime;
+					}
+					break;
+				}
+			}
+		}
+	}
+
+	/**
+	 * Moves every entity to its interpolated state at the clock's render time, and removes despawned entities
+	 * once the render time passes their despawn
+	 */
+	public update(localTime: number) {
+		if (!this.clock.synchronized) {
+			return;
+		}
+		const renderTime = this.clock.renderTime(localTime);
+		for (const entity of this.entities.values()) {
+			if (renderTime >= entity.despawnTime) {
+				this.despawn(entity.id);
+				continue;
+			}
+			if (entity.buffer.sample(renderTime, entity.position, entity.rotation)) {
+				this.updateModel(entity);
+			}
+		}
+	}
+
+	/**
+	 * Sets the local player's id. Its entity is removed from the scene, and the previous local entity is added back.
+	 */
+	public setLocalId(id: number) {
+		const previous = this.entities.get(this.localId);
+		this.localId = id;
+		if (previous) {
+			this.attachModel(previous);
+		}
+		const local = this.entities.get(id);
+		if (local) {
+			this.detachModel(local);
+		}
+	}
+
+	/**
+	 * Writes the entity's current position and rotation into its model transform
+	 */
+	public updateModel(entity: Entity) {
+		if (!entity.model) {
+			return;
+		}
+		vec3.copy(entity.position, entity.model.transform.position);
+		quat.copy(entity.rotation, entity.model.transform.rotation);
+		this.renderer.updateModel(entity.model);
+	}
+
+	public clear() {
+		for (const entity of this.entities.values()) {
+			this.detachModel(entity);
+		}
+		this.entities.clear();
+	}
+
+	private spawnOrUpdate(state: EntitySnapshot, time: number) {
+		let entity = this.entities.get(state.id);
+		if (!entity) {
+			entity = {
+				id: state.id,
+				position: vec3.copy(state.position),
+				rotation: quat.copy(state.rotation),
+				velocity: vec3.create(),
+				buffer: new SnapshotBuffer(),
+				despawnTime: Infinity,
+				model: null,
+			};
+			this.entities.set(state.id, entity);
+			this.attachModel(entity);
+		}
+		if (state.event === EntityEvent.Spawn) {
+			// a respawn discards the buffered states, so the entity doesn't interpolate across the map
+			entity.buffer.clear();
+			entity.despawnTime = Infinity;
+		}
+		vec3.copy(state.velocity, entity.velocity);
+		entity.buffer.push(time, state.position, state.rotation, state.velocity);
+	}
+
+	private despawn(id: number) {
+		const entity = this.entities.get(id);
+		if (!entity) {
+			return;
+		}
+		this.detachModel(entity);
+		this.entities.delete(id);
+	}
+
+	private attachModel(entity: Entity) {
+		if (entity.model || !this.modelData || entity.id === this.localId) {
+			return;
+		}
+		entity.model = this.renderer.createModel(this.modelData);
+		this.renderer.addObject(entity.model);
+		this.updateModel(entity);
+	}
+
+	private detachModel(entity: Entity) {
+		if (!entity.model) {
+			return;
+		}
+		this.renderer.destroyModel(entity.model);
+		entity.model = null;
+	}
+}
@@ -0,0 +1,663 @@
+import { mat3, mat4, quat, vec3, vec4, type Mat4 } from "wgpu-matrix";
+import {
+	createMaterialParameters,
+	DEFAULT_MATERIAL_SLOT,
+	type MaterialMap,
+	type MaterialParameters,
+	type MaterialTextures,
+} from "./Material";
+import { VertexLayout, type ModelData, type ModelMesh } from "./Model";
+import type TextureLoader from "./TextureLoader";
+import { fetchBuffer, type ProgressCallback } from "./utils/fetch";
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const GLB_CHUNK_JSON = 0x4e4f534a;
+const GLB_CHUNK_BIN = 0x004e4942;
+
+const PRIMITIVE_TRIANGLES = 4;
+
+const COMPONENT_SIZES: { [componentType: number]: number } = {
+	5120: 1, // byte
+	5121: 1, // unsigned byte
+	5122: 2, // short
+	5123: 2, // unsigned short
+	5125: 4, // unsigned int
+	5126: 4, // float
+};
+const TYPE_COMPONENTS: { [type: string]: number } = {
+	SCALAR: 1,
+	VEC2: 2,
+	VEC3: 3,
+	VEC4: 4,
+};
+
+// the parts of the glTF 2.0 schema read by the loader
+type GLTFTextureInfo = { index: number; texCoord?: number };
+type GLTFMaterial = {
+	name?: string;
+	pbrMetallicRoughness?: {
+		baseColorFactor?: number[];
+		baseColorTexture?: GLTFTextureInfo;
+		metallicFactor?: number;
+		roughnessFactor?: number;
+		metallicRoughnessTexture?: GLTFTextureInfo;
+	};
+	normalTexture?: GLTFTextureInfo;
+	occlusionTexture?: GLTFTextureInfo;
+	emissiveFactor?: number[];
+};
+type GLTFPrimitive = {
+	attributes: { [attribute: string]: number };
+	indices?: number;
+	material?: number;
+	mode?: number;
+};
+type GLTFNode = {
+	children?: number[];
+	mesh?: number;
+	matrix?: number[];
+	translation?: number[];
+	rotation?: number[];
+	scale?: number[];
+};
+type GLTF = {
+	asset: { version: string };
+	extensionsRequired?: string[];
+	scene?: number;
+	scenes?: { nodes?: number[] }[];
+	nodes?: GLTFNode[];
+	meshes?: { primitives: GLTFPrimitive[] }[];
+	accessors?: {
+		bufferView?: number;
+		byteOffset?: number;
+		componentType: number;
+		normalized?: boolean;
+		count: number;
+		type: string;
+		sparse?: unknown;
+	}[];
+	bufferViews?: { buffer: number; byteOffset?: number; byteLength: number; byteStride?: number }[];
+	buffers?: { uri?: string; byteLength: number }[];
+	materials?: GLTFMaterial[];
+	textures?: { source?: number }[];
+	images?: { uri?: string; bufferView?: number; mimeType?: string }[];
+};
+
+/**
+ * A primitive's vertices, moved into model space by its node's transform
+ */
+type Geometry = {
+	positions: Float32Array;
+	normals: Float32Array;
+	uvs: Float32Array | null;
+	colors: Float32Array | null;
+	tangents: Float32Array | null;
+	indices: Uint32Array;
+	material: string;
+};
+
+/**
+ * Loads a glTF 2.0 model, either .gltf with its external or embedded buffers, or binary .glb. The scene's node
+ * hierarchy is flattened into a single vertex buffer, with a mesh per primitive in its material's slot.
+ *
+ * The vertices are packed in the same layout as .bobj models, so uvs outside of 0 to 1 are clamped. Tangents are
+ * kept if every primitive has them, and primitives without normals are flat shaded.
+ * @param onProgress progress of the model file itself, not its external buffers and images
+ */
+export async function loadGLTF(
+	device: GPUDevice,
+	textureLoader: TextureLoader,
+	url: string,
+	onProgress?: ProgressCallback,
+): Promise<ModelData> {
+	const baseURL = new URL(url, location.href);
+	const { gltf, binaryChunk } = parseContainer(await fetchBuffer(url, onProgress), url);
+	if (!gltf.asset?.version?.startsWith("2.")) {
+		throw new Error(`Model ${url} has glTF version ${gltf.asset?.version}, expected 2.x`);
+	}
+	if (gltf.extensionsRequired?.length) {
+		throw new Error(`Model ${url} requires unsupported glTF extensions: ${gltf.extensionsRequired.join(", ")}`);
+	}
+
+	const buffers = await Promise.all(
+		(gltf.buffers ?? []).map(async (buffer, i) => {
+			if (buffer.uri === undefined) {
+				if (i !== 0 || !binaryChunk) {
+					throw new Error(`Buffer ${i} of model ${url} has no uri`);
+				}
+				return binaryChunk;
+			}
+			const response = await fetch(new URL(buffer.uri, baseURL));
+			if (!response.ok) {
+				throw new Error(`Failed to load buffer ${buffer.uri} of model ${url}`);
+			}
+			return new Uint8Array(await response.arrayBuffer());
+		}),
+	);
+
+	const slots = materialSlots(gltf);
+	const geometries: Geometry[] = [];
+	for (const node of rootNodes(gltf)) {
+		collectNode(gltf, buffers, slots, node, mat4.identity(), geometries, new Set());
+	}
+	if (geometries.length === 0) {
+		throw new Error(`Model ${url} has no triangle meshes`);
+	}
+
+	const [textures, materials] = await Promise.all([
+		loadTextures(gltf, buffers, slots, textureLoader, baseURL),
+		materialParameters(gltf, slots),
+	]);
+	return createModelData(device, url, geometries, textures, materials);
+}
+
+function parseContainer(data: ArrayBuffer, url: string): { gltf: GLTF; binaryChunk: Uint8Array | null } {
+	const view = new DataView(data);
+	if (data.byteLength < 12 || view.getUint32(0, true) !== GLB_MAGIC) {
+		return { gltf: JSON.parse(new TextDecoder().decode(data)), binaryChunk: null };
+	}
+
+	// glb: a 12 byte header followed by the JSON chunk and an optional binary chunk
+	const length = Math.min(view.getUint32(8, true), data.byteLength);
+	let gltf: GLTF | null = null;
+	let binaryChunk: Uint8Array | null = null;
+	let offset = 12;
+	while (offset + 8 <= length) {
+		const chunkLength = view.getUint32(offset, true);
+		const chunkType = view.getUint32(offset + 4, true);
+		if (offset + 8 + chunkLength > length) {
+			throw new Error(`Model ${url} has a truncated glb chunk`);
+		}
+		const chunk = new Uint8Array(data, offset + 8, chunkLength);
+		if (chunkType === GLB_CHUNK_JSON) {
+			gltf = JSON.parse(new TextDecoder().decode(chunk));
+		} else if (chunkType === GLB_CHUNK_BIN && !binaryChunk) {
+			binaryChunk = chunk;
+		}
+		offset += 8 + chunkLength;
+	}
+	if (!gltf) {
+		throw new Error(`Model ${url} has no glb JSON chunk`);
+	}
+	return { gltf: gltf, binaryChunk: binaryChunk };
+}
+
+/**
+ * @returns the slot name of each material, its name if it has a unique one
+ */
+function materialSlots(gltf: GLTF): string[] {
+	const materials = gltf.materials ?? [];
+	const names = materials.map((material) => material.name);
+	return materials.map((material, i) => {
+		const name = material.name;
+		if (name && name !== DEFAULT_MATERIAL_SLOT && names.indexOf(name) === names.lastIndexOf(name)) {
+			return name;
+		}
+		return `material ${i}`;
+	});
+}
+
+/**
+ * @returns the nodes of the default scene, or every node without a parent if there are no scenes
+ */
+function rootNodes(gltf: GLTF): number[] {
+	const scene = gltf.scenes?.[gltf.scene ?? 0];
+	if (scene) {
+		return scene.nodes ?? [];
+	}
+	const children = new Set((gltf.nodes ?? []).flatMap((node) => node.children ?? []));
+	return (gltf.nodes ?? []).map((_, i) => i).filter((i) => !children.has(i));
+}
+
+/**
+ * Adds the geometry of the node and its descendants, in model space
+ * @param ancestors the nodes above this one, to reject cycles
+ */
+function collectNode(
+	gltf: GLTF,
+	buffers: Uint8Array[],
+	slots: string[],
+	index: number,
+	parentMatrix: Mat4,
+	geometries: Geometry[],
+	ancestors: Set<number>,
+) {
+	const node = gltf.nodes?.[index];
+	if (!node) {
+		throw new Error(`Invalid node ${index}`);
+	}
+	if (ancestors.has(index)) {
+		throw new Error(`Node ${index} is its own ancestor`);
+	}
+	const local = node.matrix
+		? mat4.copy(node.matrix)
+		: mat4.fromQuat(node.rotation ? quat.copy(node.rotation) : quat.identity());
+	if (!node.matrix) {
+		if (node.scale) {
+			mat4.scale(local, node.scale, local);
+		}
+		if (node.translation) {
+			local[12] = node.translation[0];
+			local[13] = node.translation[1];
+			local[14] = node.translation[2];
+		}
+	}
+	const matrix = mat4.multiply(parentMatrix, local);
+
+	if (node.mesh !== undefined) {
+		const mesh = gltf.meshes?.[node.mesh];
+		if (!mesh) {
+			throw new Error(`Invalid mesh ${node.mesh}`);
+		}
+		for (const primitive of mesh.primitives) {
+			if ((primitive.mode ?? PRIMITIVE_TRIANGLES) !== PRIMITIVE_TRIANGLES) {
+				console.warn(`Skipping glTF primitive with unsupported mode ${primitive.mode}`);
+				continue;
+			}
+			geometries.push(readPrimitive(gltf, buffers, slots, primitive, matrix));
+		}
+	}
+	ancestors.add(index);
+	for (const child of node.children ?? []) {
+		collectNode(gltf, buffers, slots, child, matrix, geometries, ancestors);
+	}
+	ancestors.delete(index);
+}
+
+function readPrimitive(
+	gltf: GLTF,
+	buffers: Uint8Array[],
+	slots: string[],
+	primitive: GLTFPrimitive,
+	matrix: Mat4,
+): Geometry {
+	const attributes = primitive.attributes;
+	if (attributes.POSITION === undefined) {
+		throw new Error("glTF primitive has no positions");
+	}
+	const positions = readAccessor(gltf, buffers, attributes.POSITION, 3);
+	const vertexCount = positions.length / 3;
+	const normals = attributes.NORMAL !== undefined ? readAccessor(gltf, buffers, attributes.NORMAL, 3) : null;
+	const uvs = attributes.TEXCOORD_0 !== undefined ? readAccessor(gltf, buffers, attributes.TEXCOORD_0, 2) : null;
+	const colors = attributes.COLOR_0 !== undefined ? readAccessor(gltf, buffers, attributes.COLOR_0, 3) : null;
+	const tangents = attributes.TANGENT !== undefined ? readAccessor(gltf, buffers, attributes.TANGENT, 4) : null;
+	let indices: Uint32Array;
+	if (primitive.indices !== undefined) {
+		indices = Uint32Array.from(readAccessor(gltf, buffers, primitive.indices, 1));
+	} else {
+		indices = new Uint32Array(vertexCount).map((_, i) => i);
+	}
+	for (const index of indices) {
+		if (index >= vertexCount) {
+			throw new Error(`glTF primitive index ${index} is out of range of its ${vertexCount} vertices`);
+		}
+	}
+
+	// mirrored transforms flip the winding order and the tangent handedness
+	const mirrored = mat4.determinant(matrix) < 0;
+	const normalMatrix = mat3.transpose(mat3.inverse(mat3.fromMat4(matrix)));
+	const p = vec3.create();
+	for (let i = 0; i < vertexCount; i++) {
+		vec3.transformMat4(positions.subarray(i * 3, i * 3 + 3), matrix, p);
+		positions.set(p, i * 3);
+		if (normals) {
+			vec3.normalize(vec3.transformMat3(normals.subarray(i * 3, i * 3 + 3), normalMatrix, p), p);
+			normals.set(p, i * 3);
+		}
+		if (tangents) {
+			vec3.normalize(vec3.transformMat4Upper3x3(tangents.subarray(i * 4, i * 4 + 3), matrix, p), p);
+			tangents.set(p, i * 4);
+			tangents[i * 4 + 3] *= mirrored ? -1 : 1;
+		}
+	}
+	if (mirrored) {
+		for (let i = 0; i + 2 < indices.length; i += 3) {
+			[indices[i + 1], indices[i + 2]] = [indices[i + 2], indices[i + 1]];
+		}
+	}
+
+	let geometry: Geometry = {
+		positions: positions,
+		normals: normals ?? new Float32Array(0),
+		uvs: uvs,
+		colors: colors,
+		tangents: tangents,
+		indices: indices,
+		material: primitive.material !== undefined ? slots[primitive.material] : DEFAULT_MATERIAL_SLOT,
+	};
+	if (!normals) {
+		geometry = flatShade(geometry);
+	}
+	return geometry;
+}
+
+/**
+ * Reads an accessor into floats, converting normalized integers to 0 to 1 (or -1 to 1)
+ * @param components the number of components to keep per element, extra components are dropped
+ */
+function readAccessor(gltf: GLTF, buffers: Uint8Array[], index: number, components: number): Float32Array {
+	const accessor = gltf.accessors?.[index];
+	if (!accessor) {
+		throw new Error(`Invalid accessor ${index}`);
+	}
+	if (accessor.sparse) {
+		throw new Error("Sparse glTF accessors are not supported");
+	}
+	const componentSize = COMPONENT_SIZES[accessor.componentType];
+	const typeComponents = TYPE_COMPONENTS[accessor.type];
+	if (!componentSize || !typeComponents) {
+		throw new Error(`Unsupported glTF accessor ${accessor.type} of component type ${accessor.componentType}`);
+	}
+	const out = new Float32Array(accessor.count * components);
+	if (accessor.bufferView === undefined) {
+		// no data means all zeros
+		return out;
+	}
+	const bufferView = gltf.bufferViews?.[accessor.bufferView];
+	const buffer = bufferView && buffers[bufferView.buffer];
+	if (!bufferView || !buffer) {
+		throw new Error(`Invalid buffer view ${accessor.bufferView}`);
+	}
+	const stride = bufferView.byteStride ?? typeComponents * componentSize;
+	const byteOffset = buffer.byteOffset + (bufferView.byteOffset ?? 0) + (accessor.byteOffset ?? 0);
+	if (accessor.count > 0) {
+		const end = (bufferView.byteOffset ?? 0) + (accessor.byteOffset ?? 0);
+		if (end + (accessor.count - 1) * stride + typeComponents * componentSize > buffer.byteLength) {
+			throw new Error(`glTF accessor ${index} is out of its buffer's range`);
+		}
+	}
+	const view = new DataView(buffer.buffer, byteOffset);
+	const normalized = accessor.normalized ?? false;
+
+	for (let i = 0; i < accessor.count; i++) {
+		for (let c = 0; c < Math.min(components, typeComponents); c++) {
+			const offset = i * stride + c * componentSize;
+			let value: number;
+			switch (accessor.componentType) {
+				case 5120:
+					value = view.getInt8(offset);
+					value = normalized ? Math.max(value / 127, -1) : value;
+					break;
+				case 5121:
+					value = view.getUint8(offset);
+					value = normalized ? value / 255 : value;
+					break;
+				case 5122:
+					value = view.getInt16(offset, true);
+					value = normalized ? Math.max(value / 32767, -1) : value;
+					break;
+				case 5123:
+					value = view.getUint16(offset, true);
+					value = normalized ? value / 65535 : value;
+					break;
+				case 5125:
+					value = view.getUint32(offset, true);
+					break;
+				default:
+					value = view.getFloat32(offset, true);
+					break;
+			}
+			out[i * components + c] = value;
+		}
+	}
+	return out;
+}
+
+/**
+ * Gives each triangle its own vertices with the face normal, as the spec asks for primitives without normals
+ */
+function flatShade(geometry: Geometry): Geometry {
+	const count = geometry.indices.length;
+	const remap = <T extends Float32Array | null>(source: T, components: number): T => {
+		if (!source) {
+			return source;
+		}
+		const out = new Float32Array(count * components);
+		for (let i = 0; i < count; i++) {
+			out.set(
+				source.subarray(geometry.indices[i] * components, (geometry.indices[i] + 1) * components),
+				i * components,
+			);
+		}
+		return out as T;
+	};
+	const positions = remap(geometry.positions, 3);
+	const normals = new Float32Array(count * 3);
+	const edge1 = vec3.create();
+	const edge2 = vec3.create();
+	const normal = vec3.create();
+	for (let i = 0; i + 2 < count; i += 3) {
+		const a = positions.subarray(i * 3, i * 3 + 3);
+		vec3.subtract(positions.subarray(i * 3 + 3, i * 3 + 6), a, edge1);
+		vec3.subtract(positions.subarray(i * 3 + 6, i * 3 + 9), a, edge2);
+		vec3.normalize(vec3.cross(edge1, edge2, normal), normal);
+		normals.set(normal, i * 3);
+		normals.set(normal, i * 3 + 3);
+		normals.set(normal, i * 3 + 6);
+	}
+	return {
+		positions: positions,
+		normals: normals,
+		uvs: remap(geometry.uvs, 2),
+		colors: remap(geometry.colors, 3),
+		tangents: remap(geometry.tangents, 4),
+		indices: new Uint32Array(count).map((_, i) => i),
+		material: geometry.material,
+	};
+}
+
+function materialParameters(gltf: GLTF, slots: string[]): { [material: string]: MaterialParameters } {
+	const materials: { [material: string]: MaterialParameters } = {};
+	(gltf.materials ?? []).forEach((material, i) => {
+		const pbr = material.pbrMetallicRoughness ?? {};
+		const parameters = createMaterialParameters();
+		if (pbr.baseColorFactor) {
+			vec4.copy(pbr.baseColorFactor, parameters.baseColor);
+		}
+		if (material.emissiveFactor) {
+			vec3.copy(material.emissiveFactor, parameters.emissive);
+		}
+		parameters.metallic = pbr.metallicFactor ?? 1.0;
+		parameters.roughness = pbr.roughnessFactor ?? 1.0;
+		materials[slots[i]] = parameters;
+	});
+	return materials;
+}
+
+/**
+ * Loads the material maps of each slot. Maps that fail to load are left out, as with loadMaterialTextures.
+ */
+async function loadTextures(
+	gltf: GLTF,
+	buffers: Uint8Array[],
+	slots: string[],
+	textureLoader: TextureLoader,
+	baseURL: URL,
+): Promise<{ [material: string]: MaterialTextures }> {
+	// images may be shared between materials, and metallic and roughness come from the same image
+	const cache = new Map<string, Promise<GPUTexture>>();
+	const load = (info: GLTFTextureInfo, format: GPUTextureFormat, channel?: number): Promise<GPUTexture> => {
+		const source = gltf.textures?.[info.index]?.source;
+		const key = `${source}:${format}:${channel}`;
+		let texture = cache.get(key);
+		if (!texture) {
+			texture = imageBlob(gltf, buffers, source, baseURL).then((blob) =>
+				textureLoader.loadBlob(blob, `${baseURL.pathname} image ${source}`, format, channel),
+			);
+			cache.set(key, texture);
+		}
+		return texture;
+	};
+
+	const textures: { [material: string]: MaterialTextures } = {};
+	await Promise.all(
+		(gltf.materials ?? []).map(async (material, i) => {
+			const pbr = material.pbrMetallicRoughness ?? {};
+			// metallic is stored in the blue channel and roughness in the green channel
+			const maps: [MaterialMap, GLTFTextureInfo | undefined, GPUTextureFormat, number | undefined][] = [
+				["albedo", pbr.baseColorTexture, "rgba8unorm-srgb", undefined],
+				["normal", material.normalTexture, "rgba8unorm", undefined],
+				["metallic", pbr.metallicRoughnessTexture, "r8unorm", 2],
+				["roughness", pbr.metallicRoughnessTexture, "r8unorm", 1],
+				["ao", material.occlusionTexture, "r8unorm", 0],
+			];
+			const slotTextures: MaterialTextures = {};
+			await Promise.all(
+				maps.map(async ([map, info, format, channel]) => {
+					if (!info) {
+						return;
+					}
+					if ((info.texCoord ?? 0) !== 0) {
+						console.warn(`Skipping ${map} map of material ${slots[i]}, only the first uv set is supported`);
+						return;
+					}
+					try {
+						slotTextures[map] = await load(info, format, channel);
+					} catch (err) {
+						console.error(err);
+					}
+				}),
+			);
+			textures[slots[i]] = slotTextures;
+		}),
+	);
+	return textures;
+}
+
+async function imageBlob(gltf: GLTF, buffers: Uint8Array[], index: number | undefined, baseURL: URL): Promise<Blob> {
+	const image = index !== undefined ? gltf.images?.[index] : undefined;
+	if (!image) {
+		throw new Error(`Invalid glTF image ${index}`);
+	}
+	if (image.bufferView !== undefined) {
+		const bufferView = gltf.bufferViews?.[image.bufferView];
+		const buffer = bufferView && buffers[bufferView.buffer];
+		if (!bufferView || !buffer) {
+			throw new Error(`Invalid buffer view ${image.bufferView}`);
+		}
+		const offset = bufferView.byteOffset ?? 0;
+		return new Blob([buffer.slice(offset, offset + bufferView.byteLength)], { type: image.mimeType });
+	}
+	if (image.uri === undefined) {
+		throw new Error(`glTF image ${index} has no uri or buffer view`);
+	}
+	const response = await fetch(new URL(image.uri, baseURL));
+	if (!response.ok) {
+		throw new Error(`Failed to load image: ${image.uri}. Server responded with status ${response.status}.`);
+	}
+	return response.blob();
+}
+
+/**
+ * Packs the geometries into a single vertex and index buffer, in the .bobj vertex layout
+ */
+function createModelData(
+	device: GPUDevice,
+	url: string,
+	geometries: Geometry[],
+	textures: { [material: string]: MaterialTextures },
+	materials: { [material: string]: MaterialParameters },
+): ModelData {
+	const hasTangent = geometries.every((geometry) => geometry.tangents);
+	const hasColor = geometries.some((geometry) => geometry.colors);
+	const vertexCount = geometries.reduce((count, geometry) => count + geometry.positions.length / 3, 0);
+	const indexCount = geometries.reduce((count, geometry) => count + geometry.indices.length, 0);
+
+	// quantized relative to the bounds, as the bin-obj converter does
+	const min = vec3.fromValues(Infinity, Infinity, Infinity);
+	const max = vec3.fromValues(-Infinity, -Infinity, -Infinity);
+	for (const geometry of geometries) {
+		for (let i = 0; i < geometry.positions.length; i += 3) {
+			vec3.min(min, geometry.positions.subarray(i, i + 3), min);
+			vec3.max(max, geometry.positions.subarray(i, i + 3), max);
+		}
+	}
+	const scale = 1.0 / Math.max(0.0001, max[0] - min[0], max[1] - min[1], max[2] - min[2]);
+	const offset = vec3.lerp(min, max, 0.5);
+
+	const wordsPerVertex = hasTangent ? 5 : 4;
+	const vertices = new Uint32Array(vertexCount * wordsPerVertex);
+	const indices = vertexCount > 0xffff ? new Uint32Array(indexCount) : new Uint16Array(indexCount);
+	const meshes: ModelMesh[] = [];
+	const quantize = (value: number, bits: number) => Math.round(Math.min(Math.max(value, 0), 1) * ((1 << bits) - 1));
+	const packDirection = (x: number, y: number, z: number) =>
+		((quantize(x * 0.5 + 0.5, 10) << 22) |
+			(quantize(y * 0.5 + 0.5, 10) << 12) |
+			(quantize(z * 0.5 + 0.5, 10) << 2)) >>>
+		0;
+
+	let baseVertex = 0;
+	let firstIndex = 0;
+	for (const geometry of geometries) {
+		const count = geometry.positions.length / 3;
+		for (let i = 0; i < count; i++) {
+			const p = geometry.positions.subarray(i * 3, i * 3 + 3);
+			const x = quantize((p[0] - offset[0]) * scale + 0.5, 16);
+			const y = quantize((p[1] - offset[1]) * scale + 0.5, 16);
+			const z = quantize((p[2] - offset[2]) * scale + 0.5, 16);
+			let color = 0xffff;
+			if (geometry.colors) {
+				const c = geometry.colors.subarray(i * 3, i * 3 + 3);
+				color = (quantize(c[0], 5) << 11) | (quantize(c[1], 6) << 5) | quantize(c[2], 5);
+			}
+			const n = geometry.normals.subarray(i * 3, i * 3 + 3);
+			// glTF uvs start at the top left, flipped to match the textures
+			const u = geometry.uvs ? quantize(geometry.uvs[i * 2], 16) : 0;
+			const v = geometry.uvs ? quantize(1.0 - geometry.uvs[i * 2 + 1], 16) : 0;
+
+			const word = (baseVertex + i) * wordsPerVertex;
+			vertices[word] = ((x << 16) | y) >>> 0;
+			vertices[word + 1] = ((z << 16) | color) >>> 0;
+			vertices[word + 2] = packDirection(n[0], n[1], n[2]);
+			vertices[word + 3] = ((u << 16) | v) >>> 0;
+			if (hasTangent) {
+				const t = geometry.tangents!.subarray(i * 4, i * 4 + 4);
+				vertices[word + 4] = (packDirection(t[0], t[1], t[2]) | (t[3] < 0 ? 1 : 0)) >>> 0;
+			}
+		}
+		for (let i = 0; i < geometry.indices.length; i++) {
+			indices[firstIndex + i] = baseVertex + geometry.indices[i];
+		}
+		meshes.push({ material: geometry.material, firstIndex: firstIndex, indexCount: geometry.indices.length });
+		baseVertex += count;
+		firstIndex += geometry.indices.length;
+	}
+
+	const vertexBuffer = device.createBuffer({
+		label: `vertex buffer ${url}`,
+		size: vertices.byteLength,
+		usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
+		mappedAtCreation: true,
+	});
+	new Uint32Array(vertexBuffer.getMappedRange()).set(vertices);
+	vertexBuffer.unmap();
+
+	// mapped buffer sizes must be a multiple of 4
+	const indexBuffer = device.createBuffer({
+		label: `index buffer ${url}`,
+		size: Math.ceil(indices.byteLength / 4) * 4,
+		usage: GPUBufferUsage.INDEX,
+		mappedAtCreation: true,
+	});
+	new Uint8Array(indexBuffer.getMappedRange()).set(new Uint8Array(indices.buffer));
+	indexBuffer.unmap();
+
+	return {
+		vertexBuffer: vertexBuffer,
+		vertexCount: vertexCount,
+		indexBuffer: indexBuffer,
+		indexFormat: indices instanceof Uint32Array ? "uint32" : "uint16",
+		indexCount: indexCount,
+		triangleCount: indexCount / 3,
+		scale: scale,
+		offset: offset,
+		hasColor: hasColor,
+		hasUV: true,
+		hasNormal: true,
+		hasTangent: hasTangent,
+		vertexLayout: hasTangent ? VertexLayout.Tangent : VertexLayout.Standard,
+		meshes: meshes,
+		textures: textures,
+		materials: materials,
+	};
+}
@@ -1,7 +1,33 @@
 import { gameStats } from "$lib/stores.svelte";
+import { vec3 } from "wgpu-matrix";
 import Input from "./Input";
+import { InputReplay } from "./InputRecording";
 import WasmWorker from "./wasm/WasmWorker?worker";
 import Renderer, { DEBUG_GRAPHICS_TIME } from "./Renderer";
+import EntityRegistry from "./EntityRegistry";
+import { failLoading, loadingDone } from "./Loading";
+import RenderSettings from "./RenderSettings";
+import GraphicsSettings from "./GraphicsSettings";
+import PlayerController from "./PlayerController";
+import { MovementMode } from "./Movement";
+import {
+	ConnectionStatus,
+	decodeMessage,
+	NO_CLIENT_ID,
+	Opcode,
+	postProtocolMessage,
+	type InputCommand,
+	type Message,
+} from "./Protocol";
+
+export const SIMULATION_SETTINGS = {
+	// fixed simulation steps per second
+	tickRate: 60,
+	// frame times above this are clamped, so a stall doesn't have to be caught up on
+	maxFrameTime: 250.0,
+	// simulation steps run per frame at most, the remaining time is dropped
+	maxStepsPerFrame: 8,
+};
 
 export type RenderContext = {
 	adapter: GPUAdapter;
@@ -10,9 +36,59 @@ export type RenderContext = {
 	timestampQuery: boolean;
 };
 
+/**
+ * The simulation state an input recording starts from, restored before replaying it
+ */
+type RecordingMetadata = {
+	position: number[];
+	velocity: number[];
+	yaw: number;
+	pitch: number;
+	mode: MovementMode;
+	accumulator: number;
+};
+
+function isRecordingMetadata(value: unknown): value is RecordingMetadata {
+	if (typeof value !== "object" || value === null) {
+		return false;
+	}
+	const metadata = value as { [key: string]: unknown };
+	const isVec3 = (v: unknown) => Array.isArray(v) && v.length === 3 && v.every((x) => typeof x === "number");
+	return (
+		isVec3(metadata.position) &&
+		isVec3(metadata.velocity) &&
+		typeof metadata.yaw === "number" &&
+		typeof metadata.pitch === "number" &&
+		(metadata.mode === MovementMode.Walk || metadata.mode === MovementMode.Fly) &&
+		typeof metadata.accumulator === "number"
+	);
+}
+
+/**
+ * Saves the data to a file through the browser's downloads
+ */
+function download(data: BlobPart, filename: string) {
+	const url = URL.createObjectURL(new Blob([data], { type: "application/octet-stream" }));
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = filename;
+	link.click();
+	// revoked once the download has had time to start, large ones are cancelled when it's revoked right away
+	setTimeout(() => URL.revokeObjectURL(url), 60000);
+}
+
 export default class Game {
-	private input: Input;
+	public readonly input: Input;
+	// applied before the renderer is created, so it's built with the player's settings from the start
+	private readonly renderSettings = new RenderSettings();
+	public readonly graphics: GraphicsSettings;
+	private readonly canvas: HTMLCanvasElement;
 	private worker: Worker;
+	private connectionStatus = ConnectionStatus.Connecting;
+	private clientId = NO_CLIENT_ID;
+	private entities: EntityRegistry | null = null;
+	private readonly player = new PlayerController();
+	private accumulator: number = 0;
 
 	private frameTime: number = 0;
 	private graphicsTime: { [key: string]: number } | null = null;
@@ -20,7 +96,12 @@ export default class Game {
 	private statsPollStart: number = 0;
 
 	constructor(canvas: HTMLCanvasElement) {
+		this.canvas = canvas;
 		this.input = new Input(canvas);
+		this.graphics = new GraphicsSettings(this.renderSettings);
+		// dropping a recording onto the canvas replays it
+		canvas.addEventListener("dragover", this.onDragOver);
+		canvas.addEventListener("drop", this.onDrop);
 
 		this.init(canvas)
 			.then((ctx) => {
@@ -33,7 +114,10 @@ export default class Game {
 				resize();
 				window.addEventListener("resize", resize);
 
-				renderer = new Renderer(canvas, ctx);
+				renderer = new Renderer(canvas, ctx, this.renderSettings);
+				this.entities = new EntityRegistry(renderer);
+				this.entities.setLocalId(this.clientId);
+				this.player.reset(renderer.camera);
 
 				if (renderer.timestampData) {
 					this.graphicsTime = {...renderer.timestampData.data};
@@ -42,14 +126,41 @@ export default class Game {
 				// main draw loop
 				let prevTime = NaN;
 				const draw = (time: number) => {
+					// nothing is simulated or drawn until the required assets are ready, so the first frame is complete
+					if (!loadingDone()) {
+						this.input.update();
+						requestAnimationFrame(draw);
+						return;
+					}
 					if (Number.isNaN(prevTime)) {
 						prevTime = time;
 					}
-					const deltaTime = Math.max(0, time - prevTime);
+					let deltaTime = Math.max(0, time - prevTime);
 					prevTime = time;
 
+					// checked before the frame is recorded or replayed, so the toggle itself is never replayed and a
+					// replay can be stopped with the live input
+					if (this.input.actionPressed("toggleRecording") && !this.input.replaying) {
+						this.toggleRecording();
+					}
+					if (this.input.actionPressed("stopReplay") && this.input.replaying) {
+						this.input.stopReplay();
+					}
+					if (this.input.actionPressed("exportSkyBake")) {
+						renderer
+							.exportSkyBake()
+							.then((bake) => download(bake, "sky.ibl"))
+							.catch((err) => console.error(err));
+					}
+					deltaTime = this.input.beginFrame(deltaTime);
+
 					const startTime = performance.now();
-					renderer.draw(this.input, deltaTime);
+					this.player.look(this.input);
+					const alpha = this.simulate(deltaTime);
+					this.player.update(deltaTime);
+					this.player.applyToCamera(renderer.camera);
+					this.entities?.update(startTime);
+					renderer.draw(this.input, alpha);
 
 					const endTime = performance.now();
 					this.frameTime += deltaTime;
@@ -69,6 +180,7 @@ export default class Game {
 						}
 						gameStats.passes = frameStats;
 						gameStats.fps = 1000.0 / (this.frameTime / this.statsPollCount);
+						gameStats.renderScale = renderer.renderScale;
 						this.statsPollStart = endTime;
 						this.statsPollCount = 0;
 						this.frameTime = 0;
@@ -83,19 +195,152 @@ export default class Game {
 			})
 			.catch((e) => {
 				console.error(e);
+				failLoading(e);
 			});
 
 		// init socket and worker for communication
 		const worker = new WasmWorker();
-		worker.onmessage = (e) => {
-			if (e.data === "socket closed") {
-				worker.terminate();
+		worker.onmessage = (e: MessageEvent<ArrayBuffer>) => {
+			try {
+				this.onWorkerMessage(decodeMessage(e.data));
+			} catch (err) {
+				console.error(err);
 			}
 		};
 		this.worker = worker;
 	}
 
+	/**
+	 * Starts recording input, or stops and downloads the recording
+	 */
+	private toggleRecording() {
+		if (!this.input.recording) {
+			const metadata: RecordingMetadata = {
+				position: Array.from(this.player.prediction.state.position),
+				velocity: Array.from(this.player.prediction.state.velocity),
+				yaw: this.player.yaw,
+				pitch: this.player.pitch,
+				mode: this.player.mode,
+				accumulator: this.accumulator,
+			};
+			this.input.startRecording(metadata);
+			gameStats.recording = true;
+			return;
+		}
+
+		const recording = this.input.stopRecording();
+		gameStats.recording = false;
+		if (!recording) {
+			return;
+		}
+		download(recording, `input-${new Date().toISOString().replace(/[:.]/g, "-")}.irec`);
+	}
+
+	/**
+	 * Moves the player back to where the recording started and replays its input
+	 * @throws Error if the recording is invalid
+	 */
+	public startReplay(recording: ArrayBuffer) {
+		const replay = new InputReplay(recording);
+		if (isRecordingMetadata(replay.metadata)) {
+			const metadata = replay.metadata;
+			this.player.place(vec3.copy(metadata.position), metadata.yaw, metadata.pitch);
+			vec3.copy(metadata.velocity, this.player.prediction.state.velocity);
+			this.player.mode = metadata.mode;
+			this.accumulator = metadata.accumulator;
+		} else {
+			console.warn("Input recording has no starting state, replaying from the current position.");
+		}
+		this.input.startReplay(replay);
+	}
+
+	private onDragOver = (e: DragEvent) => {
+		e.preventDefault();
+	};
+
+	private onDrop = async (e: DragEvent) => {
+		e.preventDefault();
+		const file = e.dataTransfer?.files[0];
+		if (!file) {
+			return;
+		}
+		try {
+			this.startReplay(await file.arrayBuffer());
+		} catch (err) {
+			console.error(err);
+		}
+	};
+
+	/**
+	 * Advances the simulation in fixed steps by the frame's elapsed time
+	 * @returns the interpolation alpha between the last two simulation steps
+	 */
+	private simulate(deltaTime: number): number {
+		const step = 1000.0 / SIMULATION_SETTINGS.tickRate;
+		this.accumulator += Math.min(deltaTime, SIMULATION_SETTINGS.maxFrameTime);
+
+		let steps = 0;
+		while (this.accumulator >= step) {
+			if (steps >= SIMULATION_SETTINGS.maxStepsPerFrame) {
+				// drop the time that can't be caught up on, rather than falling further behind
+				this.accumulator %= step;
+				break;
+			}
+			this.tick(step);
+			this.accumulator -= step;
+			steps++;
+		}
+		return this.accumulator / step;
+	}
+
+	/**
+	 * One fixed simulation step
+	 */
+	private tick(step: number) {
+		this.sendInput(this.player.tick(this.input, step));
+	}
+
+	private onWorkerMessage(message: Message) {
+		switch (message.opcode) {
+			case Opcode.ConnectionStatus:
+				this.connectionStatus = message.status;
+				if (message.clientId !== NO_CLIENT_ID) {
+					this.clientId = message.clientId;
+					this.entities?.setLocalId(message.clientId);
+				}
+				if (message.status === ConnectionStatus.Closed) {
+					this.entities?.clear();
+					this.worker.terminate();
+				}
+				break;
+			case Opcode.Snapshot: {
+				const snapshot = message.snapshot;
+				this.entities?.applySnapshot(snapshot, performance.now());
+				const local = snapshot.entities.find((entity) => entity.id === this.clientId);
+				if (local) {
+					this.player.reconcile(local, snapshot.lastInputSequence);
+				}
+				break;
+			}
+			case Opcode.Error:
+				console.error(`Worker error (${message.code}): ${message.message}`);
+				break;
+		}
+	}
+
+	/**
+	 * Sends an input command to the server through the worker
+	 */
+	public sendInput(input: InputCommand) {
+		if (this.connectionStatus !== ConnectionStatus.Open) {
+			return;
+		}
+		postProtocolMessage(this.worker, { opcode: Opcode.Input, input: input });
+	}
+
 	public onDestroy() {
+		this.canvas.removeEventListener("dragover", this.onDragOver);
+		this.canvas.removeEventListener("drop", this.onDrop);
 		this.input.onDestroy();
 		this.worker.terminate();
 	}
@@ -0,0 +1,173 @@
+import { SHADOW_SETTINGS } from "./Renderer";
+import type RenderSettings from "./RenderSettings";
+
+const STORAGE_KEY = "graphics-settings";
+
+export enum GraphicsQuality {
+	Low,
+	Medium,
+	High,
+	Ultra,
+}
+
+/**
+ * The render settings players can change, a quality preset picks all of them
+ */
+export type GraphicsOptions = {
+	// fraction of the canvas size the scene is drawn at
+	renderScale: number;
+	shadowResolution: number;
+	// pcss samples of the nearest shadow cascade, the further cascades take fewer
+	shadowSamples: number;
+	ssaoSamples: number;
+	ssaoBlurKernelSize: number;
+	// samples per texel of the sky's specular lighting map, only used when the map is generated rather than baked
+	prefilterSamples: number;
+};
+
+export const GRAPHICS_PRESETS: { [quality in GraphicsQuality]: GraphicsOptions } = {
+	[GraphicsQuality.Low]: {
+		renderScale: 0.75,
+		shadowResolution: 1024,
+		shadowSamples: 12,
+		ssaoSamples: 8,
+		ssaoBlurKernelSize: 2,
+		prefilterSamples: 256,
+	},
+	[GraphicsQuality.Medium]: {
+		renderScale: 1.0,
+		shadowResolution: 1024,
+		shadowSamples: 24,
+		ssaoSamples: 16,
+		ssaoBlurKernelSize: 3,
+		prefilterSamples: 1024,
+	},
+	[GraphicsQuality.High]: {
+		renderScale: 1.0,
+		shadowResolution: 2048,
+		shadowSamples: 48,
+		ssaoSamples: 32,
+		ssaoBlurKernelSize: 4,
+		prefilterSamples: 2048,
+	},
+	[GraphicsQuality.Ultra]: {
+		renderScale: 1.0,
+		shadowResolution: 4096,
+		shadowSamples: 64,
+		ssaoSamples: 64,
+		ssaoBlurKernelSize: 4,
+		prefilterSamples: 4096,
+	},
+};
+export const DEFAULT_GRAPHICS_QUALITY = GraphicsQuality.High;
+
+// pcss and blocker search samples of each cascade, relative to shadowSamples
+const CASCADE_SAMPLE_SCALES = [
+	{ samples: 1.0, blockerSamples: 1.0 },
+	{ samples: 0.5, blockerSamples: 1.0 / 3.0 },
+	{ samples: 0.25, blockerSamples: 0.25 },
+];
+
+function isGraphicsOptions(value: unknown): value is GraphicsOptions {
+	if (typeof value !== "object" || value === null) {
+		return false;
+	}
+	const options = value as { [key: string]: unknown };
+	return Object.keys(GRAPHICS_PRESETS[DEFAULT_GRAPHICS_QUALITY]).every(
+		(key) => typeof options[key] === "number" && Number.isFinite(options[key]) && options[key] > 0,
+	);
+}
+
+/**
+ * The player's graphics options, applied to the render settings. Options are changed together through a quality
+ * preset or one at a time, and are persisted to localStorage.
+ */
+export default class GraphicsSettings {
+	private readonly renderSettings: RenderSettings;
+	private options: GraphicsOptions;
+
+	constructor(renderSettings: RenderSettings) {
+		this.renderSettings = renderSettings;
+		this.options = { ...GRAPHICS_PRESETS[DEFAULT_GRAPHICS_QUALITY] };
+		this.load();
+		this.apply();
+	}
+
+	public get(): Readonly<GraphicsOptions> {
+		return this.options;
+	}
+
+	/**
+	 * @returns the preset the options match, or null if they've been customized
+	 */
+	public get quality(): GraphicsQuality | null {
+		for (const [quality, preset] of Object.entries(GRAPHICS_PRESETS)) {
+			if ((Object.keys(preset) as (keyof GraphicsOptions)[]).every((key) => preset[key] === this.options[key])) {
+				return Number(quality) as GraphicsQuality;
+			}
+		}
+		return null;
+	}
+
+	public setQuality(quality: GraphicsQuality) {
+		this.set(GRAPHICS_PRESETS[quality]);
+	}
+
+	public set(options: Partial<GraphicsOptions>) {
+		this.options = { ...this.options, ...options };
+		this.apply();
+		this.save();
+	}
+
+	public reset() {
+		this.setQuality(DEFAULT_GRAPHICS_QUALITY);
+	}
+
+	private apply() {
+		this.renderSettings.set("resolution", {
+			renderScale: this.options.renderScale,
+		});
+		// the shadow kernel holds only so many samples
+		const shadowSamples = Math.min(this.options.shadowSamples, SHADOW_SETTINGS.kernelSize);
+		this.renderSettings.set("shadows", {
+			resolution: this.options.shadowResolution,
+			cascades: SHADOW_SETTINGS.cascades.map((cascade, i) => ({
+				...cascade,
+				samples: Math.max(1, Math.round(shadowSamples * CASCADE_SAMPLE_SCALES[i].samples)),
+				blockerSamples: Math.max(1, Math.round(shadowSamples * CASCADE_SAMPLE_SCALES[i].blockerSamples)),
+			})),
+		});
+		this.renderSettings.set("ssao", {
+			sampleCount: this.options.ssaoSamples,
+			blurKernelSize: this.options.ssaoBlurKernelSize,
+		});
+		this.renderSettings.set("sky", {
+			prefilterSamples: this.options.prefilterSamples,
+		});
+	}
+
+	private load() {
+		try {
+			const stored = localStorage.getItem(STORAGE_KEY);
+			if (!stored) {
+				return;
+			}
+			const parsed = JSON.parse(stored);
+			if (isGraphicsOptions(parsed)) {
+				for (const key of Object.keys(this.options) as (keyof GraphicsOptions)[]) {
+					this.options[key] = parsed[key];
+				}
+			}
+		} catch (e) {
+			console.error("Failed to load graphics settings, using defaults.", e);
+		}
+	}
+
+	private save() {
+		try {
+			localStorage.setItem(STORAGE_KEY, JSON.stringify(this.options));
+		} catch (e) {
+			console.error("Failed to save graphics settings.", e);
+		}
+	}
+}
@@ -1,3 +1,41 @@
+import ActionMap, { type Action, type Binding } from "./InputActions";
+import {
+	ButtonFlags,
+	InputRecorder,
+	InputSource,
+	type InputFrame,
+	type InputReplay,
+	type InputSample,
+} from "./InputRecording";
+
+export const GAMEPAD_SETTINGS = {
+	// stick deflection below this is ignored, as a fraction of the full range
+	deadzone: 0.15,
+	// stick deflection above this counts as fully pushed
+	outerDeadzone: 0.95,
+	// exponent applied to the deflection past the deadzone, > 1 gives finer control near the center
+	responseCurve: 2.0,
+	// look delta per ms at full deflection, in the same units as the mouse delta
+	lookSpeed: 0.0006,
+	// analog buttons and stick directions count as held past this value
+	pressThreshold: 0.5,
+	// caps the look step after a long frame or a tab switch
+	maxPollInterval: 100.0,
+};
+
+export const TOUCH_SETTINGS = {
+	// scales look-drag deltas relative to the same movement with the mouse
+	lookSensitivity: 1.5,
+	// on-screen controls count as held past this value
+	pressThreshold: 0.5,
+};
+
+type ButtonState = {
+	pressed: boolean;
+	released: boolean;
+	down: boolean;
+};
+
 // export interface ButtonState {
 // 	clicked: boolean;
 // 	released: boolean;
@@ -29,6 +67,32 @@ export default class Input {
 		released: false,
 		down: false,
 	};
+	private readonly mouseButtons: {
+		[button: number]: {
+			pressed: boolean;
+			released: boolean;
+			down: boolean;
+		};
+	} = {};
+	// wheel steps scrolled this frame, in each direction
+	private wheelUp: number = 0;
+	private wheelDown: number = 0;
+	// index in navigator.getGamepads() of the gamepad in use, or null if none is connected
+	public gamepadIndex: number | null = null;
+	private readonly gamepadButtons: { [button: number]: ButtonState } = {};
+	// stick axes after the deadzone and response curve
+	private readonly gamepadAxes: number[] = [];
+	private readonly prevGamepadAxes: number[] = [];
+	private lastPollTime = 0;
+	// action values set by the on-screen touch controls
+	private readonly touchActions: { [action in Action]?: ButtonState & { value: number } } = {};
+	// the touch currently dragging to look around, and where it was last frame
+	private lookTouchId: number | null = null;
+	private lookTouchX: number = 0;
+	private lookTouchY: number = 0;
+	private recorder: InputRecorder | null = null;
+	private replay: InputReplay | null = null;
+	public readonly actions = new ActionMap();
 	private canvas: HTMLCanvasElement;
 
 	constructor(canvas: HTMLCanvasElement) {
@@ -41,6 +105,19 @@ export default class Input {
 		canvas.addEventListener("mouseup", this.onMouseUp);
 		canvas.addEventListener("mousemove", this.onMouseMove);
 		canvas.addEventListener("click", this.onClick);
+		canvas.addEventListener("wheel", this.onWheel, { passive: true });
+		canvas.addEventListener("touchstart", this.onTouchStart, { passive: false });
+		canvas.addEventListener("touchmove", this.onTouchMove, { passive: false });
+		canvas.addEventListener("touchend", this.onTouchEnd);
+		canvas.addEventListener("touchcancel", this.onTouchEnd);
+		window.addEventListener("gamepadconnected", this.onGamepadConnected);
+		window.addEventListener("gamepaddisconnected", this.onGamepadDisconnected);
+		// gamepads connected before the page loaded only show up once polled
+		for (const gamepad of navigator.getGamepads?.() ?? []) {
+			if (gamepad && this.gamepadIndex === null) {
+				this.gamepadIndex = gamepad.index;
+			}
+		}
 	}
 
 	onDestroy() {
@@ -51,10 +128,74 @@ export default class Input {
 		this.canvas.removeEventListener("mouseup", this.onMouseUp);
 		this.canvas.removeEventListener("mousemove", this.onMouseMove);
 		this.canvas.removeEventListener("click", this.onClick);
+		this.canvas.removeEventListener("wheel", this.onWheel);
+		this.canvas.removeEventListener("touchstart", this.onTouchStart);
+		this.canvas.removeEventListener("touchmove", this.onTouchMove);
+		this.canvas.removeEventListener("touchend", this.onTouchEnd);
+		this.canvas.removeEventListener("touchcancel", this.onTouchEnd);
+		window.removeEventListener("gamepadconnected", this.onGamepadConnected);
+		window.removeEventListener("gamepaddisconnected", this.onGamepadDisconnected);
+	}
+
+	public get recording(): boolean {
+		return this.recorder !== null;
+	}
+
+	public get replaying(): boolean {
+		return this.replay !== null;
+	}
+
+	/**
+	 * Starts recording every frame's input, from the next call to beginFrame
+	 * @param metadata JSON-serializable state to restore before replaying
+	 */
+	public startRecording(metadata: unknown) {
+		this.recorder = new InputRecorder(metadata);
 	}
 
 	/**
-	 * Called at the end of each frame
+	 * @returns the encoded recording, or null if nothing was being recorded
+	 */
+	public stopRecording(): ArrayBuffer | null {
+		const recording = this.recorder?.finish() ?? null;
+		this.recorder = null;
+		return recording;
+	}
+
+	/**
+	 * Replaces the live input with the recorded frames until the replay ends or is stopped
+	 */
+	public startReplay(replay: InputReplay) {
+		this.stopRecording();
+		this.replay = replay;
+	}
+
+	public stopReplay() {
+		this.replay = null;
+		this.applyFrame({ deltaTime: 0, dx: 0, dy: 0, pointerLocked: false, wheelUp: 0, wheelDown: 0, samples: [] });
+		this.pointerLocked = document.pointerLockElement === this.canvas;
+	}
+
+	/**
+	 * Called at the start of each frame, before any input is read. Records the frame's input, or replaces it with
+	 * the next frame of the replay.
+	 * @returns the frame's delta time, which is the recorded one while replaying
+	 */
+	public beginFrame(deltaTime: number): number {
+		if (this.replay) {
+			const frame = this.replay.next();
+			if (frame) {
+				this.applyFrame(frame);
+				return frame.deltaTime;
+			}
+			this.stopReplay();
+		}
+		this.recorder?.record(this.captureFrame(deltaTime));
+		return deltaTime;
+	}
+
+	/**
+	 * Called at the end of each frame. Also polls the gamepad, whose input applies to the next frame.
 	 */
 	public update() {
 		this.mouseLeft.clicked = this.mouseLeft.released = false;
@@ -63,14 +204,175 @@ export default class Input {
 		this.pointerLocked = document.pointerLockElement === this.canvas;
 		this.dx = 0;
 		this.dy = 0;
+		this.wheelUp = this.wheelDown = 0;
 
 		for (const key of Object.values(this.inputKeys)) {
 			key.pressed = key.released = false;
 		}
+		for (const button of Object.values(this.mouseButtons)) {
+			button.pressed = button.released = false;
+		}
+		for (const button of Object.values(this.gamepadButtons)) {
+			button.pressed = button.released = false;
+		}
+		for (const touch of Object.values(this.touchActions)) {
+			touch.pressed = touch.released = false;
+		}
+
+		// the replay provides the gamepad state instead
+		if (!this.replay) {
+			this.pollGamepad();
+		}
 	}
 
 	/**
-	 * @param key key code
+	 * @returns whether any of the action's bindings is being held down
+	 */
+	public actionDown = (action: Action): boolean => {
+		return this.actions.get(action).some(this.bindingDown) || this.touchActions[action]?.down || false;
+	};
+
+	/**
+	 * @returns whether any of the action's bindings was just pressed
+	 */
+	public actionPressed = (action: Action): boolean => {
+		return this.actions.get(action).some(this.bindingPressed) || this.touchActions[action]?.pressed || false;
+	};
+
+	/**
+	 * @returns whether any of the action's bindings was just released
+	 */
+	public actionReleased = (action: Action): boolean => {
+		return this.actions.get(action).some(this.bindingReleased) || this.touchActions[action]?.released || false;
+	};
+
+	/**
+	 * @returns how far the action is pushed, from 0 to 1. Digital bindings are either 0 or 1, while gamepad axes
+	 * give the analog value.
+	 */
+	public actionValue = (action: Action): number => {
+		let value = this.touchActions[action]?.value ?? 0;
+		for (const binding of this.actions.get(action)) {
+			value = Math.max(value, this.bindingValue(binding));
+		}
+		return value;
+	};
+
+	/**
+	 * @returns the positive action's value minus the negative one's, from -1 to 1
+	 */
+	public actionAxis = (negative: Action, positive: Action): number => {
+		return this.actionValue(positive) - this.actionValue(negative);
+	};
+
+	/**
+	 * Sets an action's value from an on-screen touch control, independent of its bindings
+	 * @param value how far the control is pushed, from 0 when released to 1
+	 */
+	public setTouchAction = (action: Action, value: number) => {
+		const state = (this.touchActions[action] ??= { value: 0, down: false, pressed: false, released: false });
+		const down = value > TOUCH_SETTINGS.pressThreshold;
+		state.pressed ||= down && !state.down;
+		state.released ||= !down && state.down;
+		state.down = down;
+		state.value = value;
+	};
+
+	private bindingValue = (binding: Binding): number => {
+		if (binding.type === "gamepadAxis") {
+			return Math.max(0, (this.gamepadAxes[binding.axis] ?? 0) * binding.direction);
+		}
+		return this.bindingDown(binding) ? 1 : 0;
+	};
+
+	private bindingDown = (binding: Binding): boolean => {
+		switch (binding.type) {
+			case "key":
+				return this.keyDown(binding.code);
+			case "mouse":
+				return this.mouseButtons[binding.button]?.down || false;
+			case "wheel":
+				return this.bindingPressed(binding);
+			case "gamepadButton":
+				return this.gamepadButtons[binding.button]?.down || false;
+			case "gamepadAxis":
+				return this.bindingValue(binding) > GAMEPAD_SETTINGS.pressThreshold;
+		}
+	};
+
+	private bindingPressed = (binding: Binding): boolean => {
+		switch (binding.type) {
+			case "key":
+				return this.keyPressed(binding.code);
+			case "mouse":
+				return this.mouseButtons[binding.button]?.pressed || false;
+			case "wheel":
+				return (binding.direction > 0 ? this.wheelDown : this.wheelUp) > 0;
+			case "gamepadButton":
+				return this.gamepadButtons[binding.button]?.pressed || false;
+			case "gamepadAxis":
+				return this.bindingDown(binding) && !this.axisWasDown(binding.axis, binding.direction);
+		}
+	};
+
+	private bindingReleased = (binding: Binding): boolean => {
+		switch (binding.type) {
+			case "key":
+				return this.keyReleased(binding.code);
+			case "mouse":
+				return this.mouseButtons[binding.button]?.released || false;
+			case "wheel":
+				return this.bindingPressed(binding);
+			case "gamepadButton":
+				return this.gamepadButtons[binding.button]?.released || false;
+			case "gamepadAxis":
+				return !this.bindingDown(binding) && this.axisWasDown(binding.axis, binding.direction);
+		}
+	};
+
+	private axisWasDown(axis: number, direction: number): boolean {
+		return (this.prevGamepadAxes[axis] ?? 0) * direction > GAMEPAD_SETTINGS.pressThreshold;
+	}
+
+	/**
+	 * Reads the current gamepad state: button edges, the processed stick axes, and the right stick's look delta
+	 */
+	private pollGamepad() {
+		const now = performance.now();
+		const elapsed = Math.min(now - this.lastPollTime, GAMEPAD_SETTINGS.maxPollInterval);
+		this.lastPollTime = now;
+
+		this.prevGamepadAxes.length = 0;
+		this.prevGamepadAxes.push(...this.gamepadAxes);
+		this.gamepadAxes.length = 0;
+
+		const gamepad = this.gamepadIndex !== null ? navigator.getGamepads()[this.gamepadIndex] : null;
+		if (!gamepad || !gamepad.connected) {
+			return;
+		}
+
+		for (let i = 0; i < gamepad.buttons.length; i++) {
+			const down = gamepad.buttons[i].pressed || gamepad.buttons[i].value > GAMEPAD_SETTINGS.pressThreshold;
+			const state = (this.gamepadButtons[i] ??= { down: false, pressed: false, released: false });
+			state.pressed = down && !state.down;
+			state.released = !down && state.down;
+			state.down = down;
+		}
+
+		// sticks are processed in pairs, so the deadzone is round rather than a cross
+		for (let i = 0; i + 1 < gamepad.axes.length; i += 2) {
+			const [x, y] = applyStickResponse(gamepad.axes[i], gamepad.axes[i + 1]);
+			this.gamepadAxes[i] = x;
+			this.gamepadAxes[i + 1] = y;
+		}
+
+		// right stick looks around like the mouse
+		this.dx += (this.gamepadAxes[2] ?? 0) * GAMEPAD_SETTINGS.lookSpeed * elapsed;
+		this.dy += (this.gamepadAxes[3] ?? 0) * GAMEPAD_SETTINGS.lookSpeed * elapsed;
+	}
+
+	/**
+	 * @param key KeyboardEvent.code of the key
 	 * @returns whether the key is being held down
 	 */
 	public keyDown = (key: string): boolean => {
@@ -78,7 +380,7 @@ export default class Input {
 	};
 
 	/**
-	 * @param key key code
+	 * @param key KeyboardEvent.code of the key
 	 * @returns whether the key was just pressed down, i.e., a keydown event occurred
 	 */
 	public keyPressed = (key: string): boolean => {
@@ -87,7 +389,7 @@ export default class Input {
 
 	/**
 	 *
-	 * @param key key code
+	 * @param key KeyboardEvent.code of the key
 	 * @returns whether the key was just released, i.e., a keyup event occurred
 	 */
 	public keyReleased = (key: string): boolean => {
@@ -95,21 +397,21 @@ export default class Input {
 	};
 
 	private onKeyDown = (e: KeyboardEvent) => {
-		if (!this.inputKeys[e.key]) {
-			this.inputKeys[e.key] = { down: true, pressed: true, released: false };
+		if (!this.inputKeys[e.code]) {
+			this.inputKeys[e.code] = { down: true, pressed: true, released: false };
 		}
-		if (!this.inputKeys[e.key].down) {
-			this.inputKeys[e.key].pressed = true;
-			this.inputKeys[e.key].down = true;
+		if (!this.inputKeys[e.code].down) {
+			this.inputKeys[e.code].pressed = true;
+			this.inputKeys[e.code].down = true;
 		}
 	};
 
 	private onKeyUp = (e: KeyboardEvent) => {
-		if (!this.inputKeys[e.key]) {
-			this.inputKeys[e.key] = { down: false, pressed: false, released: true };
+		if (!this.inputKeys[e.code]) {
+			this.inputKeys[e.code] = { down: false, pressed: false, released: true };
 		}
-		this.inputKeys[e.key].down = false;
-		this.inputKeys[e.key].released = true;
+		this.inputKeys[e.code].down = false;
+		this.inputKeys[e.code].released = true;
 	};
 
 	private onClick = async (e: MouseEvent) => {
@@ -123,6 +425,11 @@ export default class Input {
 	};
 
 	private onMouseDown = (e: MouseEvent) => {
+		if (!this.mouseButtons[e.button]) {
+			this.mouseButtons[e.button] = { down: false, pressed: false, released: false };
+		}
+		this.mouseButtons[e.button].pressed = true;
+		this.mouseButtons[e.button].down = true;
 		if (e.button === 0) {
 			this.mouseLeft.clicked = true;
 			this.mouseLeft.down = true;
@@ -134,6 +441,10 @@ export default class Input {
 	};
 
 	private onMouseUp = (e: MouseEvent) => {
+		if (this.mouseButtons[e.button]) {
+			this.mouseButtons[e.button].released = true;
+			this.mouseButtons[e.button].down = false;
+		}
 		if (e.button === 0) {
 			this.mouseLeft.released = true;
 			this.mouseLeft.down = false;
@@ -145,6 +456,9 @@ export default class Input {
 	};
 
 	private onMouseMove = (e: MouseEvent) => {
+		if (document.pointerLockElement !== this.canvas) {
+			return;
+		}
 		const scale = Math.max(this.canvas.clientWidth, this.canvas.clientHeight);
 		// this.mouseX = ((e.clientX - rect.left) / (rect.right - rect.left)) * 2.0 - 1.0;
 		// this.mouseY = ((e.clientY - rect.top) / (rect.bottom - rect.top)) * 2.0 - 1.0;
@@ -153,10 +467,189 @@ export default class Input {
 		this.dy += e.movementY / scale;
 	};
 
+	private onWheel = (e: WheelEvent) => {
+		if (e.deltaY > 0) {
+			this.wheelDown += 1;
+		} else if (e.deltaY < 0) {
+			this.wheelUp += 1;
+		}
+	};
+
+	private captureFrame(deltaTime: number): InputFrame {
+		const samples: InputSample[] = [];
+		const add = (source: InputSource, id: string | number, state: ButtonState | undefined, value: number) => {
+			const flags =
+				(state?.down ? ButtonFlags.Down : 0) |
+				(state?.pressed ? ButtonFlags.Pressed : 0) |
+				(state?.released ? ButtonFlags.Released : 0);
+			if (flags !== 0 || value !== 0) {
+				samples.push({ source: source, id: id, flags: flags, value: value });
+			}
+		};
+		for (const [code, state] of Object.entries(this.inputKeys)) {
+			add(InputSource.Key, code, state, 0);
+		}
+		for (const [button, state] of Object.entries(this.mouseButtons)) {
+			add(InputSource.MouseButton, Number(button), state, 0);
+		}
+		for (const [button, state] of Object.entries(this.gamepadButtons)) {
+			add(InputSource.GamepadButton, Number(button), state, 0);
+		}
+		this.gamepadAxes.forEach((value, axis) => add(InputSource.GamepadAxis, axis, undefined, value));
+		for (const [action, state] of Object.entries(this.touchActions)) {
+			add(InputSource.TouchAction, action, state, state.value);
+		}
+
+		return {
+			deltaTime: deltaTime,
+			dx: this.dx,
+			dy: this.dy,
+			pointerLocked: this.pointerLocked,
+			wheelUp: this.wheelUp,
+			wheelDown: this.wheelDown,
+			samples: samples,
+		};
+	}
+
+	/**
+	 * Replaces all input state with the frame's
+	 */
+	private applyFrame(frame: InputFrame) {
+		this.dx = frame.dx;
+		this.dy = frame.dy;
+		this.pointerLocked = frame.pointerLocked;
+		this.wheelUp = frame.wheelUp;
+		this.wheelDown = frame.wheelDown;
+
+		for (const table of [this.inputKeys, this.mouseButtons, this.gamepadButtons, this.touchActions]) {
+			for (const key of Object.keys(table)) {
+				delete table[key as keyof typeof table];
+			}
+		}
+		this.prevGamepadAxes.length = 0;
+		this.prevGamepadAxes.push(...this.gamepadAxes);
+		this.gamepadAxes.length = 0;
+
+		for (const sample of frame.samples) {
+			const state = {
+				down: (sample.flags & ButtonFlags.Down) !== 0,
+				pressed: (sample.flags & ButtonFlags.Pressed) !== 0,
+				released: (sample.flags & ButtonFlags.Released) !== 0,
+			};
+			switch (sample.source) {
+				case InputSource.Key:
+					this.inputKeys[sample.id] = state;
+					break;
+				case InputSource.MouseButton:
+					this.mouseButtons[sample.id as number] = state;
+					break;
+				case InputSource.GamepadButton:
+					this.gamepadButtons[sample.id as number] = state;
+					break;
+				case InputSource.GamepadAxis:
+					this.gamepadAxes[sample.id as number] = sample.value;
+					break;
+				case InputSource.TouchAction:
+					this.touchActions[sample.id as Action] = { ...state, value: sample.value };
+					break;
+			}
+		}
+		for (let i = 0; i < this.gamepadAxes.length; i++) {
+			this.gamepadAxes[i] ??= 0;
+		}
+
+		for (const [mouse, button] of [
+			[this.mouseLeft, 0],
+			[this.mouseRight, 2],
+		] as const) {
+			mouse.clicked = this.mouseButtons[button]?.pressed || false;
+			mouse.released = this.mouseButtons[button]?.released || false;
+			mouse.down = this.mouseButtons[button]?.down || false;
+		}
+	}
+
+	private onTouchStart = (e: TouchEvent) => {
+		// keeps the browser from scrolling or zooming, and from emulating mouse events
+		e.preventDefault();
+		if (this.lookTouchId === null && e.changedTouches.length > 0) {
+			const touch = e.changedTouches[0];
+			this.lookTouchId = touch.identifier;
+			this.lookTouchX = touch.clientX;
+			this.lookTouchY = touch.clientY;
+		}
+	};
+
+	private onTouchMove = (e: TouchEvent) => {
+		e.preventDefault();
+		for (const touch of e.changedTouches) {
+			if (touch.identifier !== this.lookTouchId) {
+				continue;
+			}
+			// same units as the mouse delta, so looking around feels the same
+			const scale = Math.max(this.canvas.clientWidth, this.canvas.clientHeight) / TOUCH_SETTINGS.lookSensitivity;
+			this.dx += (touch.clientX - this.lookTouchX) / scale;
+			this.dy += (touch.clientY - this.lookTouchY) / scale;
+			this.lookTouchX = touch.clientX;
+			this.lookTouchY = touch.clientY;
+		}
+	};
+
+	private onTouchEnd = (e: TouchEvent) => {
+		for (const touch of e.changedTouches) {
+			if (touch.identifier === this.lookTouchId) {
+				this.lookTouchId = null;
+			}
+		}
+	};
+
 	private onBlur = () => {
 		for (const key of Object.values(this.inputKeys)) {
 			key.down = false;
 			key.released = true;
 		}
+		for (const button of Object.values(this.mouseButtons)) {
+			button.down = false;
+			button.released = true;
+		}
+		for (const action of Object.keys(this.touchActions) as Action[]) {
+			this.setTouchAction(action, 0);
+		}
+		this.lookTouchId = null;
 	};
+
+	private onGamepadConnected = (e: GamepadEvent) => {
+		if (this.gamepadIndex === null) {
+			this.gamepadIndex = e.gamepad.index;
+		}
+	};
+
+	private onGamepadDisconnected = (e: GamepadEvent) => {
+		if (e.gamepad.index !== this.gamepadIndex) {
+			return;
+		}
+		// release everything that was held, then switch to another connected gamepad if there is one
+		for (const button of Object.values(this.gamepadButtons)) {
+			if (button.down) {
+				button.down = false;
+				button.released = true;
+			}
+		}
+		this.gamepadAxes.length = 0;
+		this.gamepadIndex = navigator.getGamepads().find((gamepad) => gamepad && gamepad.connected)?.index ?? null;
+	};
+}
+
+/**
+ * Applies a radial deadzone and the response curve to a stick's raw axes
+ * @returns the processed axes, with a length of at most 1
+ */
+function applyStickResponse(x: number, y: number): [number, number] {
+	const magnitude = Math.hypot(x, y);
+	if (magnitude <= GAMEPAD_SETTINGS.deadzone) {
+		return [0, 0];
+	}
+	const range = GAMEPAD_SETTINGS.outerDeadzone - GAMEPAD_SETTINGS.deadzone;
+	const scaled = Math.min(1, (magnitude - GAMEPAD_SETTINGS.deadzone) / range);
+	const response = Math.pow(scaled, GAMEPAD_SETTINGS.responseCurve) / magnitude;
+	return [x * response, y * response];
 }
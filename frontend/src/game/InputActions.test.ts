@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import ActionMap, { DEFAULT_BINDINGS } from "./InputActions";
+
+const STORAGE_KEY = "input-bindings";
+
+describe("ActionMap", () => {
+	let storage: Map<string, string>;
+
+	beforeEach(() => {
+		storage = new Map();
+		vi.stubGlobal("localStorage", {
+			getItem: (key: string) => storage.get(key) ?? null,
+			setItem: (key: string, value: string) => storage.set(key, value),
+		});
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("restores saved bindings", () => {
+		new ActionMap().bind("jump", { type: "key", code: "KeyJ" });
+		expect(new ActionMap().get("jump")).toEqual([
+			{ type: "key", code: "KeyJ" },
+			{ type: "gamepadButton", button: 0 },
+		]);
+	});
+
+	it("keeps defaults that were removed before saving", () => {
+		new ActionMap().unbind("jump", 1);
+		expect(new ActionMap().get("jump")).toEqual([{ type: "key", code: "Space" }]);
+	});
+
+	it("merges defaults added since the bindings were saved", () => {
+		const defaults = { ...DEFAULT_BINDINGS, jump: [{ type: "key", code: "Space" }] };
+		const bindings = { ...DEFAULT_BINDINGS, jump: [{ type: "key", code: "KeyJ" }] };
+		storage.set(STORAGE_KEY, JSON.stringify({ bindings: bindings, defaults: defaults }));
+		expect(new ActionMap().get("jump")).toEqual([
+			{ type: "key", code: "KeyJ" },
+			{ type: "gamepadButton", button: 0 },
+		]);
+	});
+
+	it("merges defaults into bindings saved without them", () => {
+		storage.set(STORAGE_KEY, JSON.stringify({ ...DEFAULT_BINDINGS, jump: [{ type: "key", code: "KeyJ" }] }));
+		expect(new ActionMap().get("jump")).toEqual([
+			{ type: "key", code: "KeyJ" },
+			{ type: "key", code: "Space" },
+			{ type: "gamepadButton", button: 0 },
+		]);
+	});
+
+	it("doesn't merge defaults another action has taken", () => {
+		const bindings = { ...DEFAULT_BINDINGS, jump: [], toggleFly: [{ type: "key", code: "Space" }] };
+		storage.set(STORAGE_KEY, JSON.stringify({ bindings: bindings, defaults: { toggleFly: [] } }));
+		const actions = new ActionMap();
+		expect(actions.get("toggleFly")).toEqual([
+			{ type: "key", code: "Space" },
+			{ type: "key", code: "KeyF" },
+			{ type: "gamepadButton", button: 3 },
+		]);
+		expect(actions.get("jump")).toEqual([{ type: "gamepadButton", button: 0 }]);
+	});
+});
@@ -0,0 +1,255 @@
+export type Action =
+	| "moveForward"
+	| "moveBack"
+	| "moveLeft"
+	| "moveRight"
+	| "jump"
+	| "primary"
+	| "secondary"
+	| "toggleFly"
+	| "toggleShadowFreeze"
+	| "toggleRecording"
+	| "stopReplay"
+	| "exportSkyBake";
+
+/**
+ * A physical input that triggers an action: a KeyboardEvent.code, a MouseEvent.button, a wheel direction,
+ * a standard-mapping gamepad button, or one direction of a gamepad axis
+ */
+export type Binding =
+	| { type: "key"; code: string }
+	| { type: "mouse"; button: number }
+	| { type: "wheel"; direction: 1 | -1 }
+	| { type: "gamepadButton"; button: number }
+	| { type: "gamepadAxis"; axis: number; direction: 1 | -1 };
+
+export type Bindings = { [action in Action]: Binding[] };
+
+const STORAGE_KEY = "input-bindings";
+
+export const DEFAULT_BINDINGS: Bindings = {
+	moveForward: [
+		{ type: "key", code: "KeyW" },
+		{ type: "gamepadAxis", axis: 1, direction: -1 },
+	],
+	moveBack: [
+		{ type: "key", code: "KeyS" },
+		{ type: "gamepadAxis", axis: 1, direction: 1 },
+	],
+	moveLeft: [
+		{ type: "key", code: "KeyA" },
+		{ type: "gamepadAxis", axis: 0, direction: -1 },
+	],
+	moveRight: [
+		{ type: "key", code: "KeyD" },
+		{ type: "gamepadAxis", axis: 0, direction: 1 },
+	],
+	jump: [
+		{ type: "key", code: "Space" },
+		{ type: "gamepadButton", button: 0 },
+	],
+	primary: [
+		{ type: "mouse", button: 0 },
+		{ type: "gamepadButton", button: 7 },
+	],
+	secondary: [
+		{ type: "mouse", button: 2 },
+		{ type: "gamepadButton", button: 6 },
+	],
+	toggleFly: [
+		{ type: "key", code: "KeyF" },
+		{ type: "gamepadButton", button: 3 },
+	],
+	toggleShadowFreeze: [{ type: "key", code: "KeyC" }],
+	toggleRecording: [{ type: "key", code: "F9" }],
+	stopReplay: [{ type: "key", code: "Escape" }],
+	exportSkyBake: [{ type: "key", code: "F10" }],
+};
+
+export function bindingEquals(a: Binding, b: Binding): boolean {
+	switch (a.type) {
+		case "key":
+			return b.type === "key" && a.code === b.code;
+		case "mouse":
+			return b.type === "mouse" && a.button === b.button;
+		case "wheel":
+			return b.type === "wheel" && a.direction === b.direction;
+		case "gamepadButton":
+			return b.type === "gamepadButton" && a.button === b.button;
+		case "gamepadAxis":
+			return b.type === "gamepadAxis" && a.axis === b.axis && a.direction === b.direction;
+	}
+}
+
+// names of the buttons and axes in the standard gamepad mapping, Xbox layout
+const GAMEPAD_BUTTON_LABELS = [
+	"A",
+	"B",
+	"X",
+	"Y",
+	"LB",
+	"RB",
+	"LT",
+	"RT",
+	"View",
+	"Menu",
+	"LS",
+	"RS",
+	"D-Pad Up",
+	"D-Pad Down",
+	"D-Pad Left",
+	"D-Pad Right",
+	"Home",
+];
+const GAMEPAD_AXIS_LABELS = ["Left Stick X", "Left Stick Y", "Right Stick X", "Right Stick Y"];
+
+/**
+ * @returns a short label for the binding, for display in menus
+ */
+export function bindingLabel(binding: Binding): string {
+	switch (binding.type) {
+		case "key":
+			return binding.code.replace(/^Key|^Digit/, "");
+		case "mouse":
+			return ["Left Mouse", "Middle Mouse", "Right Mouse"][binding.button] ?? `Mouse ${binding.button + 1}`;
+		case "wheel":
+			return binding.direction > 0 ? "Wheel Down" : "Wheel Up";
+		case "gamepadButton":
+			return GAMEPAD_BUTTON_LABELS[binding.button] ?? `Button ${binding.button}`;
+		case "gamepadAxis":
+			return `${GAMEPAD_AXIS_LABELS[binding.axis] ?? `Axis ${binding.axis}`} ${binding.direction > 0 ? "+" : "-"}`;
+	}
+}
+
+function isBinding(value: unknown): value is Binding {
+	if (typeof value !== "object" || value === null) {
+		return false;
+	}
+	const binding = value as { [key: string]: unknown };
+	switch (binding.type) {
+		case "key":
+			return typeof binding.code === "string";
+		case "mouse":
+			return typeof binding.button === "number";
+		case "wheel":
+			return binding.direction === 1 || binding.direction === -1;
+		case "gamepadButton":
+			return typeof binding.button === "number";
+		case "gamepadAxis":
+			return typeof binding.axis === "number" && (binding.direction === 1 || binding.direction === -1);
+		default:
+			return false;
+	}
+}
+
+function copyBindings(bindings: Bindings): Bindings {
+	return Object.fromEntries(
+		Object.entries(bindings).map(([action, list]) => [action, list.map((binding) => ({ ...binding }))]),
+	) as Bindings;
+}
+
+/**
+ * Maps named actions to their bindings. Bindings can be changed at runtime and are persisted to localStorage.
+ */
+export default class ActionMap {
+	private bindings: Bindings;
+
+	constructor() {
+		this.bindings = copyBindings(DEFAULT_BINDINGS);
+		this.load();
+	}
+
+	public get(action: Action): readonly Binding[] {
+		return this.bindings[action];
+	}
+
+	public actions(): Action[] {
+		return Object.keys(this.bindings) as Action[];
+	}
+
+	/**
+	 * @returns the actions other than the given one that the binding is already assigned to
+	 */
+	public conflicts(binding: Binding, action?: Action): Action[] {
+		return this.actions().filter(
+			(other) => other !== action && this.bindings[other].some((b) => bindingEquals(b, binding)),
+		);
+	}
+
+	/**
+	 * Assigns a binding to an action, replacing the binding in the given slot or appending it.
+	 * The binding is removed from any other action it was assigned to.
+	 * @returns the actions that lost the binding
+	 */
+	public bind(action: Action, binding: Binding, slot: number = 0): Action[] {
+		const conflicts = this.conflicts(binding, action);
+		for (const other of conflicts) {
+			this.bindings[other] = this.bindings[other].filter((b) => !bindingEquals(b, binding));
+		}
+
+		const list = this.bindings[action].filter((b, i) => i === slot || !bindingEquals(b, binding));
+		if (slot < list.length) {
+			list[slot] = { ...binding };
+		} else {
+			list.push({ ...binding });
+		}
+		this.bindings[action] = list;
+		this.save();
+		return conflicts;
+	}
+
+	public unbind(action: Action, slot: number) {
+		this.bindings[action] = this.bindings[action].filter((_, i) => i !== slot);
+		this.save();
+	}
+
+	public reset() {
+		this.bindings = copyBindings(DEFAULT_BINDINGS);
+		this.save();
+	}
+
+	/**
+	 * Restores the saved bindings. Defaults added since they were saved are merged in, unless another action has
+	 * taken the binding, so saved bindings don't hide new defaults.
+	 */
+	private load() {
+		try {
+			const stored = localStorage.getItem(STORAGE_KEY);
+			if (!stored) {
+				return;
+			}
+			const parsed = JSON.parse(stored);
+			// bindings saved before the defaults were stored with them count every default as new
+			const saved = parsed.bindings ?? parsed;
+			const savedDefaults = parsed.bindings ? (parsed.defaults ?? {}) : {};
+			for (const action of this.actions()) {
+				if (Array.isArray(saved[action])) {
+					this.bindings[action] = saved[action].filter(isBinding);
+				}
+			}
+			for (const action of this.actions()) {
+				const known: Binding[] = Array.isArray(savedDefaults[action])
+					? savedDefaults[action].filter(isBinding)
+					: [];
+				for (const binding of DEFAULT_BINDINGS[action]) {
+					const added = !known.some((b) => bindingEquals(b, binding));
+					const bound = this.bindings[action].some((b) => bindingEquals(b, binding));
+					if (added && !bound && this.conflicts(binding, action).length === 0) {
+						this.bindings[action].push({ ...binding });
+					}
+				}
+			}
+		} catch (e) {
+			console.error("Failed to load input bindings, using defaults.", e);
+		}
+	}
+
+	private save() {
+		try {
+			// the defaults are saved along with the bindings, to tell which defaults were added since
+			localStorage.setItem(STORAGE_KEY, JSON.stringify({ bindings: this.bindings, defaults: DEFAULT_BINDINGS }));
+		} catch (e) {
+			console.error("Failed to save input bindings.", e);
+		}
+	}
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { ButtonFlags, InputRecorder, InputReplay, InputSource, type InputFrame } from "./InputRecording";
+
+const METADATA = { start: 1 };
+
+const FRAMES: InputFrame[] = [
+	{
+		deltaTime: 16,
+		dx: 0.25,
+		dy: -0.5,
+		pointerLocked: true,
+		wheelUp: 0,
+		wheelDown: 1,
+		samples: [{ source: InputSource.Key, id: "KeyW", flags: ButtonFlags.Down | ButtonFlags.Pressed, value: 0 }],
+	},
+	{
+		deltaTime: 17,
+		dx: 0,
+		dy: 0,
+		pointerLocked: true,
+		wheelUp: 0,
+		wheelDown: 0,
+		samples: [
+			{ source: InputSource.Key, id: "KeyW", flags: ButtonFlags.Down, value: 0 },
+			{ source: InputSource.GamepadAxis, id: 1, flags: 0, value: -0.75 },
+		],
+	},
+	{ deltaTime: 16, dx: 0, dy: 0, pointerLocked: false, wheelUp: 0, wheelDown: 0, samples: [] },
+];
+
+function record(frames: InputFrame[]): ArrayBuffer {
+	const recorder = new InputRecorder(METADATA);
+	for (const frame of frames) {
+		recorder.record(frame);
+	}
+	return recorder.finish();
+}
+
+describe("InputReplay", () => {
+	it("replays the recorded frames", () => {
+		const replay = new InputReplay(record(FRAMES));
+		expect(replay.metadata).toEqual(METADATA);
+		expect(replay.frameCount).toBe(FRAMES.length);
+		for (const frame of FRAMES) {
+			expect(replay.next()).toEqual(frame);
+		}
+		expect(replay.done).toBe(true);
+		expect(replay.next()).toBeNull();
+	});
+
+	it("rejects a recording cut off in its frames", () => {
+		const recording = record(FRAMES);
+		expect(() => new InputReplay(recording.slice(0, recording.byteLength - 4))).toThrow("unexpected end of data");
+	});
+
+	it("rejects unknown input sources", () => {
+		const recording = record(FRAMES);
+		// the header holds the metadata and the single name "KeyW", the first sample follows the first frame's fields
+		const headerSize = 4 + 2 + 4 + JSON.stringify(METADATA).length + 4 + 2 + 1 + "KeyW".length;
+		new DataView(recording).setUint8(headerSize + 29, 0xff);
+		expect(() => new InputReplay(recording)).toThrow("unknown input source");
+	});
+
+	it("rejects trailing data", () => {
+		const recording = record(FRAMES);
+		const padded = new Uint8Array(recording.byteLength + 1);
+		padded.set(new Uint8Array(recording));
+		expect(() => new InputReplay(padded.buffer)).toThrow("after the last frame");
+	});
+});
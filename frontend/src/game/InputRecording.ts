@@ -0,0 +1,333 @@
+export const RECORDING_MAGIC = 0x43455249; // "IREC"
+export const RECORDING_VERSION = 1;
+
+export enum InputSource {
+	Key,
+	MouseButton,
+	GamepadButton,
+	GamepadAxis,
+	TouchAction,
+}
+
+export enum ButtonFlags {
+	Down = 1 << 0,
+	Pressed = 1 << 1,
+	Released = 1 << 2,
+}
+
+/**
+ * The state of a single key, button, axis or touch control. Keys and touch actions are identified by name,
+ * everything else by index.
+ */
+export type InputSample = {
+	source: InputSource;
+	id: string | number;
+	flags: number;
+	value: number;
+};
+
+/**
+ * Everything Input knows at the start of a frame
+ */
+export type InputFrame = {
+	deltaTime: number;
+	dx: number;
+	dy: number;
+	pointerLocked: boolean;
+	wheelUp: number;
+	wheelDown: number;
+	samples: InputSample[];
+};
+
+const FRAME_SIZE = 8 * 3 + 1 + 1 + 1 + 2;
+const SAMPLE_SIZE = 1 + 2 + 1;
+const VALUE_SIZE = 8;
+
+function hasValue(source: InputSource): boolean {
+	return source === InputSource.GamepadAxis || source === InputSource.TouchAction;
+}
+
+function hasName(source: InputSource): boolean {
+	return source === InputSource.Key || source === InputSource.TouchAction;
+}
+
+function sampleKey(sample: InputSample): string {
+	return `${sample.source}:${sample.id}`;
+}
+
+function sampleEquals(a: InputSample, b: InputSample): boolean {
+	return a.flags === b.flags && a.value === b.value;
+}
+
+/**
+ * Encodes input frames into a recording. Each frame stores the delta time, the look delta and only the samples that
+ * changed since the previous frame, so a recording is a few dozen bytes per frame.
+ *
+ * Layout, little-endian:
+ * - header: magic u32, version u16, metadata length u32, metadata (JSON, utf-8), frame count u32,
+ *   name count u16, names (u8 length + utf-8 each)
+ * - frame: deltaTime f64, dx f64, dy f64, flags u8 (bit 0: pointer locked), wheelUp u8, wheelDown u8,
+ *   sample count u16, samples
+ * - sample: source u8, id u16 (index into the names for keys and touch actions), flags u8, value f64 for axes and
+ *   touch actions
+ */
+export class InputRecorder {
+	private readonly metadata: unknown;
+	private readonly names = new Map<string, number>();
+	private readonly previous = new Map<string, InputSample>();
+	private buffer = new ArrayBuffer(4096);
+	private view = new DataView(this.buffer);
+	private length = 0;
+	private frameCount = 0;
+
+	/**
+	 * @param metadata JSON-serializable state to restore before replaying, e.g. the player's starting position
+	 */
+	constructor(metadata: unknown) {
+		this.metadata = metadata;
+	}
+
+	public record(frame: InputFrame) {
+		const changed: InputSample[] = [];
+		const current = new Set<string>();
+		for (const sample of frame.samples) {
+			const key = sampleKey(sample);
+			current.add(key);
+			const previous = this.previous.get(key);
+			if (!previous || !sampleEquals(previous, sample)) {
+				changed.push(sample);
+				this.previous.set(key, { ...sample });
+			}
+		}
+		// samples that disappeared are written as cleared, so the replay drops them too
+		for (const [key, sample] of this.previous) {
+			if (!current.has(key)) {
+				changed.push({ ...sample, flags: 0, value: 0 });
+				this.previous.delete(key);
+			}
+		}
+
+		let size = FRAME_SIZE;
+		for (const sample of changed) {
+			size += SAMPLE_SIZE + (hasValue(sample.source) ? VALUE_SIZE : 0);
+		}
+		this.reserve(size);
+
+		let offset = this.length;
+		this.view.setFloat64(offset, frame.deltaTime, true);
+		this.view.setFloat64(offset + 8, frame.dx, true);
+		this.view.setFloat64(offset + 16, frame.dy, true);
+		this.view.setUint8(offset + 24, frame.pointerLocked ? 1 : 0);
+		this.view.setUint8(offset + 25, Math.min(frame.wheelUp, 0xff));
+		this.view.setUint8(offset + 26, Math.min(frame.wheelDown, 0xff));
+		this.view.setUint16(offset + 27, changed.length, true);
+		offset += FRAME_SIZE;
+
+		for (const sample of changed) {
+			this.view.setUint8(offset, sample.source);
+			this.view.setUint16(offset + 1, this.sampleId(sample), true);
+			this.view.setUint8(offset + 3, sample.flags);
+			offset += SAMPLE_SIZE;
+			if (hasValue(sample.source)) {
+				this.view.setFloat64(offset, sample.value, true);
+				offset += VALUE_SIZE;
+			}
+		}
+		this.length = offset;
+		this.frameCount++;
+	}
+
+	/**
+	 * @returns the encoded recording
+	 */
+	public finish(): ArrayBuffer {
+		const encoder = new TextEncoder();
+		const metadata = encoder.encode(JSON.stringify(this.metadata ?? null));
+		const names = [...this.names.keys()].map((name) => encoder.encode(name));
+
+		let headerSize = 4 + 2 + 4 + metadata.byteLength + 4 + 2;
+		for (const name of names) {
+			headerSize += 1 + name.byteLength;
+		}
+
+		const out = new Uint8Array(headerSize + this.length);
+		const view = new DataView(out.buffer);
+		let offset = 0;
+		view.setUint32(offset, RECORDING_MAGIC, true);
+		view.setUint16(offset + 4, RECORDING_VERSION, true);
+		view.setUint32(offset + 6, metadata.byteLength, true);
+		offset += 10;
+		out.set(metadata, offset);
+		offset += metadata.byteLength;
+		view.setUint32(offset, this.frameCount, true);
+		view.setUint16(offset + 4, names.length, true);
+		offset += 6;
+		for (const name of names) {
+			view.setUint8(offset, name.byteLength);
+			out.set(name, offset + 1);
+			offset += 1 + name.byteLength;
+		}
+		out.set(new Uint8Array(this.buffer, 0, this.length), offset);
+		return out.buffer;
+	}
+
+	private sampleId(sample: InputSample): number {
+		if (!hasName(sample.source)) {
+			return sample.id as number;
+		}
+		const name = String(sample.id);
+		let index = this.names.get(name);
+		if (index === undefined) {
+			index = this.names.size;
+			this.names.set(name, index);
+		}
+		return index;
+	}
+
+	private reserve(size: number) {
+		if (this.length + size <= this.buffer.byteLength) {
+			return;
+		}
+		let capacity = this.buffer.byteLength * 2;
+		while (capacity < this.length + size) {
+			capacity *= 2;
+		}
+		const buffer = new ArrayBuffer(capacity);
+		new Uint8Array(buffer).set(new Uint8Array(this.buffer, 0, this.length));
+		this.buffer = buffer;
+		this.view = new DataView(buffer);
+	}
+}
+
+/**
+ * Decodes a recording made by InputRecorder. All frames are decoded up front, so a truncated or corrupt recording
+ * is rejected before it starts replaying.
+ */
+export class InputReplay {
+	public readonly metadata: unknown;
+	public readonly frameCount: number;
+	private readonly view: DataView;
+	private readonly names: string[] = [];
+	private readonly frames: InputFrame[] = [];
+	private offset: number;
+	private frame = 0;
+
+	/**
+	 * @throws Error if the buffer isn't a complete recording of a supported version
+	 */
+	constructor(buffer: ArrayBuffer) {
+		this.view = new DataView(buffer);
+		const decoder = new TextDecoder();
+		if (buffer.byteLength < 10 || this.view.getUint32(0, true) !== RECORDING_MAGIC) {
+			throw new Error("Invalid input recording");
+		}
+		const version = this.view.getUint16(4, true);
+		if (version !== RECORDING_VERSION) {
+			throw new Error(`Unsupported input recording version ${version}, expected ${RECORDING_VERSION}`);
+		}
+
+		const metadataLength = this.view.getUint32(6, true);
+		let offset = 10;
+		this.checkLength(offset + metadataLength + 6);
+		this.metadata = JSON.parse(decoder.decode(new Uint8Array(buffer, offset, metadataLength)));
+		offset += metadataLength;
+
+		this.frameCount = this.view.getUint32(offset, true);
+		const nameCount = this.view.getUint16(offset + 4, true);
+		offset += 6;
+		for (let i = 0; i < nameCount; i++) {
+			this.checkLength(offset + 1);
+			const length = this.view.getUint8(offset);
+			this.checkLength(offset + 1 + length);
+			this.names.push(decoder.decode(new Uint8Array(buffer, offset + 1, length)));
+			offset += 1 + length;
+		}
+		this.offset = offset;
+
+		const current = new Map<string, InputSample>();
+		for (let i = 0; i < this.frameCount; i++) {
+			this.frames.push(this.decodeFrame(current));
+		}
+		if (this.offset !== buffer.byteLength) {
+			throw new Error(`Invalid input recording: ${buffer.byteLength - this.offset} bytes after the last frame`);
+		}
+	}
+
+	public get done(): boolean {
+		return this.frame >= this.frameCount;
+	}
+
+	/**
+	 * @returns the next frame, with the full input state rather than just the changes, or null at the end
+	 */
+	public next(): InputFrame | null {
+		if (this.done) {
+			return null;
+		}
+		return this.frames[this.frame++];
+	}
+
+	/**
+	 * Reads the frame at the current offset and applies its changes to the input state
+	 * @param current the input state after the previous frame, by sample key
+	 */
+	private decodeFrame(current: Map<string, InputSample>): InputFrame {
+		let offset = this.offset;
+		this.checkLength(offset + FRAME_SIZE);
+		const frame: InputFrame = {
+			deltaTime: this.view.getFloat64(offset, true),
+			dx: this.view.getFloat64(offset + 8, true),
+			dy: this.view.getFloat64(offset + 16, true),
+			pointerLocked: (this.view.getUint8(offset + 24) & 1) !== 0,
+			wheelUp: this.view.getUint8(offset + 25),
+			wheelDown: this.view.getUint8(offset + 26),
+			samples: [],
+		};
+		const sampleCount = this.view.getUint16(offset + 27, true);
+		offset += FRAME_SIZE;
+
+		for (let i = 0; i < sampleCount; i++) {
+			this.checkLength(offset + SAMPLE_SIZE);
+			const source = this.view.getUint8(offset) as InputSource;
+			if (!(source in InputSource)) {
+				throw new Error(`Invalid input recording: unknown input source ${source}`);
+			}
+			const id = this.view.getUint16(offset + 1, true);
+			const sample: InputSample = {
+				source: source,
+				id: hasName(source) ? this.name(id) : id,
+				flags: this.view.getUint8(offset + 3),
+				value: 0,
+			};
+			offset += SAMPLE_SIZE;
+			if (hasValue(source)) {
+				this.checkLength(offset + VALUE_SIZE);
+				sample.value = this.view.getFloat64(offset, true);
+				offset += VALUE_SIZE;
+			}
+
+			if (sample.flags === 0 && sample.value === 0) {
+				current.delete(sampleKey(sample));
+			} else {
+				current.set(sampleKey(sample), sample);
+			}
+		}
+
+		frame.samples = [...current.values()];
+		this.offset = offset;
+		return frame;
+	}
+
+	private name(index: number): string {
+		if (index >= this.names.length) {
+			throw new Error(`Invalid input recording: name index ${index} out of range`);
+		}
+		return this.names[index];
+	}
+
+	private checkLength(length: number) {
+		if (length > this.view.byteLength) {
+			throw new Error("Invalid input recording: unexpected end of data");
+		}
+	}
+}
@@ -0,0 +1,190 @@
+import { quat, vec3, type Quat, type Vec3 } from "wgpu-matrix";
+
+export const INTERPOLATION_SETTINGS = {
+	// minimum time in ms that remote entities are rendered behind the estimated server time
+	renderDelay: 100.0,
+	// the delay grows to this many snapshot intervals, so slow tick rates still have two snapshots to blend
+	intervalDelayScale: 1.5,
+	// maximum time in ms to extrapolate past the newest snapshot when packets are late
+	maxExtrapolation: 250.0,
+	// number of snapshots stored per entity
+	bufferSize: 32,
+	// weight of each new sample in the clock offset and snapshot interval averages
+	smoothing: 0.1,
+	// clock offset error in ms past which the estimate snaps instead of smoothing
+	snapThreshold: 500.0,
+};
+
+type TimedState = {
+	time: number;
+	position: Vec3;
+	rotation: Quat;
+	velocity: Vec3;
+};
+
+/**
+ * Estimates the server clock from snapshot timestamps, and the render time that remote entities are drawn at.
+ */
+export class ServerClock {
+	private offset = NaN;
+	private prevArrival = NaN;
+	private prevServerTime = NaN;
+	public snapshotInterval = 0.0;
+
+	/**
+	 * Called with each received snapshot's server time, and the local time it arrived at
+	 */
+	public onSnapshot(serverTime: number, localTime: number) {
+		const offset = localTime - serverTime;
+		if (Number.isNaN(this.offset) || Math.abs(offset - this.offset) > INTERPOLATION_SETTINGS.snapThreshold) {
+			this.offset = offset;
+		} else {
+			this.offset += (offset - this.offset) * INTERPOLATION_SETTINGS.smoothing;
+		}
+
+		if (!Number.isNaN(this.prevServerTime) && serverTime > this.prevServerTime) {
+			const interval = Math.max(serverTime - this.prevServerTime, localTime - this.prevArrival);
+			this.snapshotInterval =
+				this.snapshotInterval === 0.0
+					? interval
+					: this.snapshotInterval + (interval - this.snapshotInterval) * INTERPOLATION_SETTINGS.smoothing;
+		}
+		this.prevServerTime = serverTime;
+		this.prevArrival = localTime;
+	}
+
+	public get synchronized(): boolean {
+		return !Number.isNaN(this.offset);
+	}
+
+	public serverTime(localTime: number): number {
+		return localTime - this.offset;
+	}
+
+	/**
+	 * @returns the server time at which remote entities should be sampled
+	 */
+	public renderTime(localTime: number): number {
+		const delay = Math.max(
+			INTERPOLATION_SETTINGS.renderDelay,
+			this.snapshotInterval * INTERPOLATION_SETTINGS.intervalDelayScale,
+		);
+		return this.serverTime(localTime) - delay;
+	}
+}
+
+/**
+ * Ring buffer of timestamped entity states, sampled by interpolating between the two snapshots around the
+ * render time, or extrapolating along the newest snapshot's velocity when no newer snapshot has arrived.
+ */
+export class SnapshotBuffer {
+	private readonly states: TimedState[];
+	private start = 0;
+	private count = 0;
+
+	constructor(size: number = INTERPOLATION_SETTINGS.bufferSize) {
+		this.states = new Array(Math.max(2, size));
+		for (let i = 0; i < this.states.length; i++) {
+			this.states[i] = {
+				time: 0,
+				position: vec3.create(),
+				rotation: quat.identity(),
+				velocity: vec3.create(),
+			};
+		}
+	}
+
+	public get length(): number {
+		return this.count;
+	}
+
+	/**
+	 * @returns the time of the newest snapshot, or -Infinity if the buffer is empty
+	 */
+	public get newestTime(): number {
+		return this.count > 0 ? this.at(this.count - 1).time : -Infinity;
+	}
+
+	/**
+	 * Inserts a snapshot in time order. Snapshots older than the whole buffer, or duplicate times, are dropped.
+	 */
+	public push(time: number, position: Vec3, rotation: Quat, velocity: Vec3) {
+		let index = this.count;
+		while (index > 0 && this.at(index - 1).time > time) {
+			index--;
+		}
+		if (index > 0 && this.at(index - 1).time === time) {
+			return;
+		}
+		if (this.count === this.states.length) {
+			if (index === 0) {
+				return;
+			}
+			this.start = (this.start + 1) % this.states.length;
+			this.count--;
+			index--;
+		}
+
+		// shift newer states up by one, reusing the storage past the end
+		const slot = this.states[(this.start + this.count) % this.states.length];
+		for (let i = this.count; i > index; i--) {
+			this.states[(this.start + i) % this.states.length] = this.at(i - 1);
+		}
+		this.states[(this.start + index) % this.states.length] = slot;
+		this.count++;
+
+		slot.time = time;
+		vec3.copy(position, slot.position);
+		quat.copy(rotation, slot.rotation);
+		vec3.copy(velocity, slot.velocity);
+	}
+
+	public clear() {
+		this.start = 0;
+		this.count = 0;
+	}
+
+	/**
+	 * Samples the buffered states at the given time
+	 * @returns false if the buffer is empty and nothing was written
+	 */
+	public sample(time: number, position: Vec3, rotation: Quat): boolean {
+		if (this.count === 0) {
+			return false;
+		}
+
+		const oldest = this.at(0);
+		if (time <= oldest.time) {
+			vec3.copy(oldest.position, position);
+			quat.copy(oldest.rotation, rotation);
+			return true;
+		}
+
+		const newest = this.at(this.count - 1);
+		if (time >= newest.time) {
+			const dt = Math.min(time - newest.time, INTERPOLATION_SETTINGS.maxExtrapolation);
+			vec3.addScaled(newest.position, newest.velocity, dt / 1000.0, position);
+			quat.copy(newest.rotation, rotation);
+			return true;
+		}
+
+		// drop the states that can no longer be sampled, keeping one before the render time
+		let from = 0;
+		while (from + 1 < this.count && this.at(from + 1).time <= time) {
+			from++;
+		}
+		const a = this.at(from);
+		const b = this.at(from + 1);
+		const t = (time - a.time) / (b.time - a.time);
+		vec3.lerp(a.position, b.position, t, position);
+		quat.slerp(a.rotation, b.rotation, t, rotation);
+
+		this.start = (this.start + from) % this.states.length;
+		this.count -= from;
+		return true;
+	}
+
+	private at(index: number): TimedState {
+		return this.states[(this.start + index) % this.states.length];
+	}
+}
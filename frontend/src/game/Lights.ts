@@ -0,0 +1,109 @@
+import { vec3, type Vec3 } from "wgpu-matrix";
+
+export enum LightType {
+	Point,
+	Spot,
+}
+
+/**
+ * A dynamic light, e.g. a street lamp or a muzzle flash. Changes are uploaded before the next frame is drawn.
+ */
+export type Light = {
+	type: LightType;
+	position: Vec3;
+	// the direction spot lights point in
+	direction: Vec3;
+	// linear color, multiplied by the intensity
+	color: Vec3;
+	intensity: number;
+	// distance at which the light has faded out completely
+	range: number;
+	// half angles of a spot light's cone in radians, fading from full intensity at the inner to none at the outer
+	innerAngle: number;
+	outerAngle: number;
+};
+
+// position + range, color + intensity, direction + type, cone cosines and padding
+const LIGHT_SIZE = 16 * 4;
+
+export function createLight(type: LightType): Light {
+	return {
+		type: type,
+		position: vec3.create(),
+		direction: vec3.fromValues(0.0, -1.0, 0.0),
+		color: vec3.fromValues(1.0, 1.0, 1.0),
+		intensity: 1.0,
+		range: 10.0,
+		innerAngle: Math.PI / 8.0,
+		outerAngle: Math.PI / 6.0,
+	};
+}
+
+/**
+ * The lights in the scene and the storage buffer they're uploaded to
+ */
+export default class Lights {
+	public readonly buffer: GPUBuffer;
+	public readonly maxLights: number;
+	private readonly lights: Light[] = [];
+	private readonly data: ArrayBuffer;
+	private readonly floatData: Float32Array;
+	private readonly uintData: Uint32Array;
+
+	/**
+	 * @param maxLights lights added past this are kept but not drawn
+	 */
+	constructor(device: GPUDevice, maxLights: number) {
+		this.maxLights = maxLights;
+		this.buffer = device.createBuffer({
+			label: "lights storage buffer",
+			size: maxLights * LIGHT_SIZE,
+			usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+		});
+		this.data = new ArrayBuffer(this.buffer.size);
+		this.floatData = new Float32Array(this.data);
+		this.uintData = new Uint32Array(this.data);
+	}
+
+	/**
+	 * The number of lights that are drawn
+	 */
+	public get count(): number {
+		return Math.min(this.lights.length, this.maxLights);
+	}
+
+	public add(light: Light) {
+		if (!this.lights.includes(light)) {
+			this.lights.push(light);
+		}
+	}
+
+	public remove(light: Light) {
+		const index = this.lights.indexOf(light);
+		if (index >= 0) {
+			this.lights.splice(index, 1);
+		}
+	}
+
+	/**
+	 * Uploads the lights that are drawn
+	 */
+	public update(device: GPUDevice) {
+		const count = this.count;
+		for (let i = 0; i < count; i++) {
+			const light = this.lights[i];
+			const offset = (i * LIGHT_SIZE) / 4;
+			this.floatData.set(light.position, offset);
+			this.floatData[offset + 3] = light.range;
+			this.floatData.set(light.color, offset + 4);
+			this.floatData[offset + 7] = light.intensity;
+			vec3.normalize(light.direction, this.floatData.subarray(offset + 8, offset + 11));
+			this.uintData[offset + 11] = light.type;
+			this.floatData[offset + 12] = Math.cos(light.innerAngle);
+			this.floatData[offset + 13] = Math.cos(light.outerAngle);
+		}
+		if (count > 0) {
+			device.queue.writeBuffer(this.buffer, 0, this.data, 0, count * LIGHT_SIZE);
+		}
+	}
+}
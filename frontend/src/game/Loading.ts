@@ -0,0 +1,92 @@
+import { loadingState, type LoadingTaskState } from "$lib/stores.svelte";
+
+/**
+ * Something being loaded, shown on the loading overlay until it's done
+ */
+export class LoadingTask {
+	private readonly state: LoadingTaskState;
+
+	/**
+	 * @param required whether the first frame waits for the task
+	 * @param unit what progress is counted in
+	 */
+	constructor(label: string, required: boolean, unit: LoadingTaskState["unit"] = "bytes") {
+		loadingState.tasks.push({
+			label: label,
+			loaded: 0,
+			total: 0,
+			unit: unit,
+			required: required,
+		});
+		// the proxied state, so updates reach the overlay
+		this.state = loadingState.tasks[loadingState.tasks.length - 1];
+	}
+
+	public progress(loaded: number, total: number) {
+		this.state.loaded = loaded;
+		this.state.total = total;
+	}
+
+	public finish() {
+		if (this.remove() && this.state.required) {
+			loadingState.finishedRequired++;
+		}
+	}
+
+	/**
+	 * Stops the game from loading if the task is required, otherwise reports the failure until it's dismissed
+	 */
+	public fail(err: unknown) {
+		this.remove();
+		if (this.state.required) {
+			failLoading(err);
+		} else {
+			loadingState.failures.push({
+				label: this.state.label,
+				error: err instanceof Error ? err.message : String(err),
+			});
+		}
+	}
+
+	/**
+	 * @returns whether the task was still running
+	 */
+	private remove(): boolean {
+		const index = loadingState.tasks.indexOf(this.state);
+		if (index === -1) {
+			return false;
+		}
+		loadingState.tasks.splice(index, 1);
+		return true;
+	}
+}
+
+/**
+ * Reports a failure that stops the game from loading at all
+ */
+export function failLoading(err: unknown) {
+	loadingState.error = err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * @returns whether every required task is done, and none failed
+ */
+export function loadingDone(): boolean {
+	return loadingState.error === null && loadingState.tasks.every((task) => !task.required);
+}
+
+/**
+ * @returns the progress of the required tasks, 0 to 1
+ */
+export function loadingProgress(): number {
+	const running = loadingState.tasks.filter((task) => task.required);
+	const total = loadingState.finishedRequired + running.length;
+	if (total === 0) {
+		return 1;
+	}
+	let progress = loadingState.finishedRequired;
+	for (const task of running) {
+		progress += task.total > 0 ? Math.min(task.loaded / task.total, 1) : 0;
+	}
+	return progress / total;
+}
@@ -0,0 +1,131 @@
+import { vec3, vec4, type Vec3, type Vec4 } from "wgpu-matrix";
+import type TextureLoader from "./TextureLoader";
+
+export type MaterialMap = "albedo" | "normal" | "metallic" | "roughness" | "ao";
+
+/**
+ * Order of the maps in the model bind group and in the shader's map flags
+ */
+export const MATERIAL_MAPS: readonly MaterialMap[] = ["albedo", "normal", "metallic", "roughness", "ao"];
+
+export type MaterialTextures = { [map in MaterialMap]?: GPUTexture };
+
+/**
+ * Material slot of model files without named materials
+ */
+export const DEFAULT_MATERIAL_SLOT = "default";
+
+/**
+ * Where to load a material's maps from, each at `${baseURL}_${map}.${extension}`
+ */
+export type MaterialSource = {
+	baseURL: string;
+	maps: MaterialMap[];
+	extension: string;
+};
+
+export const MATERIAL_SOURCES = {
+	monke: {
+		baseURL: "/monke-smooth",
+		maps: ["albedo", "normal", "metallic", "roughness"],
+		extension: "webp",
+	},
+} satisfies { [name: string]: MaterialSource };
+
+// color data is stored in sRGB, so it's sampled in linear space
+const MAP_FORMATS: { [map in MaterialMap]: GPUTextureFormat } = {
+	albedo: "rgba8unorm-srgb",
+	normal: "rgba8unorm",
+	metallic: "r8unorm",
+	roughness: "r8unorm",
+	ao: "r8unorm",
+};
+
+/**
+ * A model's material values. Changes are uploaded before the next frame is drawn.
+ */
+export type MaterialParameters = {
+	// multiplies the albedo map, or the vertex color without one
+	baseColor: Vec4;
+	// linear color added to the lit surface, may exceed 1
+	emissive: Vec3;
+	// used where the model has no map for the value
+	metallic: number;
+	roughness: number;
+	ao: number;
+};
+
+/**
+ * @param from values to copy, the defaults otherwise
+ */
+export function createMaterialParameters(from?: MaterialParameters): MaterialParameters {
+	if (from) {
+		return {
+			baseColor: vec4.clone(from.baseColor),
+			emissive: vec3.clone(from.emissive),
+			metallic: from.metallic,
+			roughness: from.roughness,
+			ao: from.ao,
+		};
+	}
+	return {
+		baseColor: vec4.fromValues(1.0, 1.0, 1.0, 1.0),
+		emissive: vec3.create(),
+		metallic: 0.0,
+		roughness: 1.0,
+		ao: 1.0,
+	};
+}
+
+/**
+ * Shared resources bound in place of a model's missing maps
+ */
+export type MaterialDefaults = {
+	sampler: GPUSampler;
+	white: GPUTexture;
+	flatNormal: GPUTexture;
+};
+
+export function createMaterialDefaults(device: GPUDevice, loader: TextureLoader): MaterialDefaults {
+	return {
+		sampler: device.createSampler({
+			label: "material sampler",
+			minFilter: "linear",
+			magFilter: "linear",
+			mipmapFilter: "linear",
+			addressModeU: "repeat",
+			addressModeV: "repeat",
+			maxAnisotropy: 8,
+		}),
+		white: loader.createSolid("default white texture", [255, 255, 255, 255]),
+		flatNormal: loader.createSolid("default normal texture", [128, 128, 255, 255]),
+	};
+}
+
+/**
+ * @returns the bit for the map in the shader's map flags
+ */
+export function materialMapFlag(map: MaterialMap): number {
+	return 1 << MATERIAL_MAPS.indexOf(map);
+}
+
+/**
+ * Loads the source's maps. Maps that fail to load are left out, so the model falls back to its scalar values.
+ * @param load loads a single map, e.g. TextureLoader.load
+ */
+export async function loadMaterialTextures(
+	load: (url: string, format: GPUTextureFormat) => Promise<GPUTexture>,
+	source: MaterialSource,
+): Promise<MaterialTextures> {
+	const textures: MaterialTextures = {};
+	await Promise.all(
+		source.maps.map(async (map) => {
+			try {
+				textures[map] = await load(`${source.baseURL}_${map}.${source.extension}`, MAP_FORMATS[map]);
+			} catch (err) {
+				console.error(err);
+			}
+		}),
+	);
+	return textures;
+}
@@ -0,0 +1,211 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_MATERIAL_SLOT } from "./Material";
+import { ModelError, ModelErrorCode, parseBOBJ } from "./Model";
+
+const URL = "test.bobj";
+
+type Fixture = {
+	version?: number;
+	indexSize?: number;
+	componentMask?: number;
+	scale?: number;
+	offset?: [number, number, number];
+	// defaults to the length of vertices and indices
+	vertexWords?: number;
+	indexCount?: number;
+	vertices: number[];
+	indices: number[];
+	meshes?: { material: string; firstIndex: number; indexCount: number }[];
+	trailingBytes?: number;
+};
+
+/**
+ * Writes a .bobj file, with the version byte and mesh table only for version 2 onwards
+ */
+function encodeBOBJ(fixture: Fixture): ArrayBuffer {
+	const version = fixture.version ?? 2;
+	const indexSize = fixture.indexSize ?? 2;
+	const encoder = new TextEncoder();
+	const names = (fixture.meshes ?? []).map((mesh) => encoder.encode(mesh.material));
+	const meshTableSize = version === 1 ? 0 : 2 + names.reduce((size, name) => size + 9 + name.length, 0);
+	const size =
+		(version === 1 ? 0 : 1) +
+		30 +
+		meshTableSize +
+		fixture.vertices.length * 4 +
+		fixture.indices.length * indexSize +
+		(fixture.trailingBytes ?? 0);
+
+	const bytes = new Uint8Array(size);
+	const view = new DataView(bytes.buffer);
+	let offset = 0;
+	if (version !== 1) {
+		view.setUint8(offset, 0x80 | version);
+		offset += 1;
+	}
+	view.setUint8(offset, indexSize);
+	view.setUint8(offset + 1, fixture.componentMask ?? 0);
+	view.setFloat64(offset + 2, fixture.scale ?? 1.0, true);
+	const [x, y, z] = fixture.offset ?? [0, 0, 0];
+	view.setFloat32(offset + 10, x, true);
+	view.setFloat32(offset + 14, y, true);
+	view.setFloat32(offset + 18, z, true);
+	view.setUint32(offset + 22, fixture.vertexWords ?? fixture.vertices.length, true);
+	view.setUint32(offset + 26, fixture.indexCount ?? fixture.indices.length, true);
+	offset += 30;
+
+	if (version !== 1) {
+		const meshes = fixture.meshes ?? [];
+		view.setUint16(offset, meshes.length, true);
+		offset += 2;
+		meshes.forEach((mesh, i) => {
+			view.setUint32(offset, mesh.firstIndex, true);
+			view.setUint32(offset + 4, mesh.indexCount, true);
+			view.setUint8(offset + 8, names[i].length);
+			bytes.set(names[i], offset + 9);
+			offset += 9 + names[i].length;
+		});
+	}
+
+	for (const word of fixture.vertices) {
+		view.setUint32(offset, word, true);
+		offset += 4;
+	}
+	for (const index of fixture.indices) {
+		if (indexSize === 1) {
+			view.setUint8(offset, index);
+		} else if (indexSize === 2) {
+			view.setUint16(offset, index, true);
+		} else {
+			view.setUint32(offset, index, true);
+		}
+		offset += indexSize;
+	}
+	return bytes.buffer;
+}
+
+function parseError(data: ArrayBuffer): ModelError {
+	try {
+		parseBOBJ(data, URL);
+	} catch (err) {
+		expect(err).toBeInstanceOf(ModelError);
+		return err as ModelError;
+	}
+	throw new Error("Expected parseBOBJ to throw");
+}
+
+// three vertices of 2 words each, position and color, with no optional components
+const VERTICES = [1, 2, 3, 4, 5, 6];
+
+const TWO_MESHES: Fixture = {
+	vertices: VERTICES,
+	indices: [0, 1, 2, 2, 1, 0],
+	meshes: [
+		{ material: "front", firstIndex: 0, indexCount: 3 },
+		{ material: "back", firstIndex: 3, indexCount: 3 },
+	],
+};
+
+describe("parseBOBJ", () => {
+	it("reads a version 1 file as a single mesh", () => {
+		const model = parseBOBJ(
+			encodeBOBJ({ version: 1, scale: 0.5, offset: [1, 2, 3], vertices: VERTICES, indices: [0, 1, 2] }),
+			URL,
+		);
+		expect(model.version).toBe(1);
+		expect(model.scale).toBe(0.5);
+		expect(Array.from(model.offset)).toEqual([1, 2, 3]);
+		expect(model.vertexCount).toBe(3);
+		expect(Array.from(model.vertices)).toEqual(VERTICES);
+		expect(Array.from(model.indices)).toEqual([0, 1, 2]);
+		expect(model.meshes).toEqual([{ material: DEFAULT_MATERIAL_SLOT, firstIndex: 0, indexCount: 3 }]);
+	});
+
+	it("reads a version 2 file with its mesh table", () => {
+		const model = parseBOBJ(encodeBOBJ(TWO_MESHES), URL);
+		expect(model.version).toBe(2);
+		expect(model.indices).toBeInstanceOf(Uint16Array);
+		expect(Array.from(model.indices)).toEqual([0, 1, 2, 2, 1, 0]);
+		expect(model.meshes).toEqual(TWO_MESHES.meshes);
+	});
+
+	it("reads the optional components", () => {
+		const model = parseBOBJ(encodeBOBJ({ componentMask: 0xf, vertices: [1, 2, 3, 4, 5], indices: [0, 0, 0] }), URL);
+		expect(model.hasUV).toBe(true);
+		expect(model.hasNormal).toBe(true);
+		expect(model.hasColor).toBe(true);
+		expect(model.hasTangent).toBe(true);
+		expect(model.vertexCount).toBe(1);
+	});
+
+	it("widens uint8 indices to uint16", () => {
+		const model = parseBOBJ(encodeBOBJ({ ...TWO_MESHES, indexSize: 1 }), URL);
+		expect(model.indices).toBeInstanceOf(Uint16Array);
+		expect(Array.from(model.indices)).toEqual([0, 1, 2, 2, 1, 0]);
+	});
+
+	it("keeps uint32 indices", () => {
+		const model = parseBOBJ(encodeBOBJ({ ...TWO_MESHES, indexSize: 4 }), URL);
+		expect(model.indices).toBeInstanceOf(Uint32Array);
+		expect(Array.from(model.indices)).toEqual([0, 1, 2, 2, 1, 0]);
+	});
+
+	it("rejects unsupported versions", () => {
+		expect(parseError(encodeBOBJ({ ...TWO_MESHES, version: 3 })).code).toBe(ModelErrorCode.UnsupportedVersion);
+	});
+
+	// the version byte, 30 header bytes, the mesh count and the "front" and "back" entries, then 6 vertex words and
+	// 6 uint16 indices
+	it.each([
+		[0, "header"],
+		[20, "header"],
+		[32, "mesh table"],
+		[40, "mesh table"],
+		[45, "mesh table"],
+		[60, "vertex data"],
+		[90, "index data"],
+	])("rejects a file cut at byte %i in the %s", (length, section) => {
+		const error = parseError(encodeBOBJ(TWO_MESHES).slice(0, length));
+		expect(error.code).toBe(ModelErrorCode.Truncated);
+		expect(error.message).toContain(`in the ${section}`);
+	});
+
+	it("rejects an invalid index size", () => {
+		const data = encodeBOBJ(TWO_MESHES);
+		new DataView(data).setUint8(1, 3);
+		expect(parseError(data).code).toBe(ModelErrorCode.InvalidHeader);
+	});
+
+	it("rejects unknown components", () => {
+		expect(parseError(encodeBOBJ({ ...TWO_MESHES, componentMask: 0x10 })).code).toBe(ModelErrorCode.InvalidHeader);
+	});
+
+	it("rejects tangents without normals and uvs", () => {
+		expect(parseError(encodeBOBJ({ ...TWO_MESHES, componentMask: 0x8 })).code).toBe(ModelErrorCode.InvalidHeader);
+	});
+
+	it("rejects a mesh past the end of the indices", () => {
+		const fixture: Fixture = { ...TWO_MESHES, meshes: [{ material: "front", firstIndex: 3, indexCount: 6 }] };
+		expect(parseError(encodeBOBJ(fixture)).code).toBe(ModelErrorCode.InvalidMesh);
+	});
+
+	it("rejects a mesh that isn't whole triangles", () => {
+		const fixture: Fixture = { ...TWO_MESHES, meshes: [{ material: "front", firstIndex: 1, indexCount: 3 }] };
+		expect(parseError(encodeBOBJ(fixture)).code).toBe(ModelErrorCode.InvalidMesh);
+	});
+
+	it("rejects an index past the vertices", () => {
+		const fixture: Fixture = { ...TWO_MESHES, indices: [0, 1, 2, 2, 1, 3] };
+		expect(parseError(encodeBOBJ(fixture)).code).toBe(ModelErrorCode.IndexOutOfRange);
+	});
+
+	it("rejects trailing bytes", () => {
+		const error = parseError(encodeBOBJ({ ...TWO_MESHES, trailingBytes: 1 }));
+		expect(error.code).toBe(ModelErrorCode.InvalidHeader);
+		expect(error.message).toContain("but the header describes");
+	});
+
+	it("includes the url in errors", () => {
+		expect(parseError(new ArrayBuffer(0)).url).toBe(URL);
+	});
+});
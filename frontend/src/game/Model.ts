@@ -1,8 +1,39 @@
 import { vec3, type Vec3 } from "wgpu-matrix";
 import Transform from "./Transform";
+import { fetchBuffer, type ProgressCallback } from "./utils/fetch";
 import type Camera from "./Camera";
+import {
+	createMaterialParameters,
+	DEFAULT_MATERIAL_SLOT,
+	MATERIAL_MAPS,
+	materialMapFlag,
+	type MaterialDefaults,
+	type MaterialParameters,
+	type MaterialTextures,
+} from "./Material";
 
-type ModelData = {
+/**
+ * Vertex buffer layouts the pipelines are created for, indexed by this enum
+ */
+export enum VertexLayout {
+	// position, color, normal, uv
+	Standard,
+	// the standard layout followed by a tangent
+	Tangent,
+}
+
+export const VERTEX_LAYOUTS = [VertexLayout.Standard, VertexLayout.Tangent];
+
+/**
+ * A range of the model's index buffer, drawn with the material in its slot
+ */
+export type ModelMesh = {
+	material: string;
+	firstIndex: number;
+	indexCount: number;
+};
+
+export type ModelData = {
 	vertexBuffer: GPUBuffer;
 	vertexCount: number;
 	indexBuffer: GPUBuffer;
@@ -14,55 +45,162 @@ type ModelData = {
 	hasColor: boolean;
 	hasUV: boolean;
 	hasNormal: boolean;
+	hasTangent: boolean;
+	vertexLayout: VertexLayout;
+	meshes: ModelMesh[];
+	// keyed by material slot
+	textures: { [material: string]: MaterialTextures };
+	// the initial material parameters of each slot, if the file defines them
+	materials: { [material: string]: MaterialParameters };
 };
 
-enum ModelReadState {
-	IndexSize,
-	VertexComponents,
-	ScaleFactor,
-	ModelOffset,
-	VertexCount,
-	IndexCount,
-	VertexData,
-	IndexData,
-	Done,
+// the first byte of version 2 files onwards, version 1 files start with the index size instead
+const BOBJ_VERSION_FLAG = 0x80;
+const BOBJ_VERSION = 2;
+
+export enum ModelErrorCode {
+	LoadFailed,
+	Truncated,
+	InvalidHeader,
+	UnsupportedVersion,
+	InvalidMesh,
+	IndexOutOfRange,
+}
+
+export class ModelError extends Error {
+	public readonly code: ModelErrorCode;
+	public readonly url: string;
+
+	constructor(code: ModelErrorCode, url: string, message: string) {
+		super(`${url}: ${message}`);
+		this.name = "ModelError";
+		this.code = code;
+		this.url = url;
+	}
 }
 
+/**
+ * The contents of a .bobj file, before they're uploaded to the GPU
+ */
+export type BOBJData = {
+	version: number;
+	hasColor: boolean;
+	hasNormal: boolean;
+	hasUV: boolean;
+	hasTangent: boolean;
+	scale: number;
+	offset: Vec3;
+	vertexCount: number;
+	vertices: Uint32Array;
+	// uint8 indices are widened, as WebGPU has no uint8 index format
+	indices: Uint16Array | Uint32Array;
+	meshes: ModelMesh[];
+};
+
+const COMPONENT_UV = 0x1;
+const COMPONENT_NORMAL = 0x2;
+const COMPONENT_COLOR = 0x4;
+const COMPONENT_TANGENT = 0x8;
+
+/**
+ * A material slot's uniform buffer and the bind group its meshes are drawn with
+ */
+type MaterialBinding = {
+	parameters: MaterialParameters;
+	textures: MaterialTextures;
+	uniformBuffer: GPUBuffer;
+	bufferData: Float32Array;
+	// the material as last uploaded, to skip the upload when nothing changed
+	uploadedData: Float32Array;
+	uploaded: boolean;
+	bindGroup: GPUBindGroup;
+};
+
 export default class Model {
 	public readonly modelData: ModelData;
 	private readonly transformUniformBuffer: GPUBuffer;
-	public readonly transformUniformBindGroup: GPUBindGroup;
 	public readonly transform: Transform;
 	private readonly transformBufferData: Float32Array;
-	public metallic = 0.0;
-	public roughness = 1.0;
-	public ao = 1.0;
+	// the material of each slot, shared by the meshes in it
+	public readonly materials: { [material: string]: MaterialParameters } = {};
+	private readonly materialBindings = new Map<string, MaterialBinding>();
 
-	constructor(device: GPUDevice, camera: Camera, transformBindGroupLayout: GPUBindGroupLayout, modelData: ModelData) {
+	constructor(
+		device: GPUDevice,
+		camera: Camera,
+		transformBindGroupLayout: GPUBindGroupLayout,
+		modelData: ModelData,
+		materialDefaults: MaterialDefaults,
+	) {
 		this.modelData = modelData;
 		this.transform = new Transform(camera);
 		this.transformBufferData = new Float32Array((16 + 12 + 4) * 4);
 
-		// uniform buffer and bind group for the transform
+		// uniform buffers and a bind group per material slot for the transform and material
 		this.transformUniformBuffer = device.createBuffer({
 			size: (16 + 12 + 4) * 4 * 4,
 			usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
 		});
-		this.transformUniformBindGroup = device.createBindGroup({
-			layout: transformBindGroupLayout,
-			entries: [
-				{
-					binding: 0,
-					resource: {
-						buffer: this.transformUniformBuffer,
+		for (const mesh of modelData.meshes) {
+			if (this.materialBindings.has(mesh.material)) {
+				continue;
+			}
+			const parameters = createMaterialParameters(modelData.materials[mesh.material]);
+			const textures = modelData.textures[mesh.material] ?? {};
+			const uniformBuffer = device.createBuffer({
+				label: `material ${mesh.material}`,
+				size: 12 * 4,
+				usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+			});
+			const bindGroup = device.createBindGroup({
+				layout: transformBindGroupLayout,
+				entries: [
+					{
+						binding: 0,
+						resource: {
+							buffer: this.transformUniformBuffer,
+						},
 					},
-				},
-			],
-		});
+					{
+						binding: 1,
+						resource: {
+							buffer: uniformBuffer,
+						},
+					},
+					{
+						binding: 2,
+						resource: materialDefaults.sampler,
+					},
+					...MATERIAL_MAPS.map((map, i) => ({
+						binding: 3 + i,
+						resource: (
+							textures[map] ?? (map === "normal" ? materialDefaults.flatNormal : materialDefaults.white)
+						).createView(),
+					})),
+				],
+			});
+			this.materials[mesh.material] = parameters;
+			this.materialBindings.set(mesh.material, {
+				parameters: parameters,
+				textures: textures,
+				uniformBuffer: uniformBuffer,
+				bufferData: new Float32Array(12),
+				uploadedData: new Float32Array(12),
+				uploaded: false,
+				bindGroup: bindGroup,
+			});
+		}
 
 		this.update(device, camera);
 	}
 
+	/**
+	 * @returns the bind group with the transform and the mesh's material
+	 */
+	public bindGroup(mesh: ModelMesh): GPUBindGroup {
+		return this.materialBindings.get(mesh.material)!.bindGroup;
+	}
+
 	public update(device: GPUDevice, camera: Camera) {
 		if (!this.modelData) {
 			return;
@@ -79,241 +217,283 @@ export default class Model {
 			this.transformBufferData.byteOffset,
 			this.transformBufferData.byteLength,
 		);
+
+		this.updateMaterial(device);
+	}
+
+	/**
+	 * Writes the materials to their uniform buffers if they changed since the last upload
+	 */
+	public updateMaterial(device: GPUDevice) {
+		for (const binding of this.materialBindings.values()) {
+			let maps = 0;
+			for (const map of MATERIAL_MAPS) {
+				if (binding.textures[map]) {
+					maps |= materialMapFlag(map);
+				}
+			}
+			const material = binding.parameters;
+			const data = binding.bufferData;
+			data.set(material.baseColor, 0);
+			data.set(material.emissive, 4);
+			data[7] = material.metallic;
+			data[8] = material.roughness;
+			data[9] = material.ao;
+			new Uint32Array(data.buffer)[10] = maps;
+
+			if (binding.uploaded && data.every((value, i) => Object.is(value, binding.uploadedData[i]))) {
+				continue;
+			}
+			device.queue.writeBuffer(binding.uniformBuffer, 0, data.buffer, data.byteOffset, data.byteLength);
+			binding.uploadedData.set(data);
+			binding.uploaded = true;
+		}
+	}
+
+	/**
+	 * Releases the per-instance GPU resources. The model data may be shared and is left intact.
+	 */
+	public destroy() {
+		this.transformUniformBuffer.destroy();
+		for (const binding of this.materialBindings.values()) {
+			binding.uniformBuffer.destroy();
+		}
 	}
 }
 
-export async function loadBOBJ(device: GPUDevice, url: string): Promise<ModelData> {
+export async function loadBOBJ(device: GPUDevice, url: string, onProgress?: ProgressCallback): Promise<ModelData> {
 	const startTime = performance.now();
 	const debug = false;
 
-	let readState = ModelReadState.IndexSize;
-
-	let indexSize: number;
-	let hasColor: boolean;
-	let hasUV: boolean;
-	let hasNormal: boolean;
-	let scale = 1.0;
-	let offset = vec3.create();
-
-	let vertexCount: number;
-	let vertexBufferSize: number;
-	let vertices: Uint32Array;
-	let vertexWriteIndex = 0;
-
-	let triangleCount: number;
-	let indexCount: number;
-	let indices: any;
-	let indicesWriteIndex = 0;
-
-	return new Promise((resolve, reject) => {
-		try {
-			fetch(url, {
-				method: "GET",
-				headers: {
-					"Content-Type": "application/octet-stream",
-				},
-			})
-				.then(readChunks)
-				.then(() => {
-					if (debug) {
-						console.log("Done reading file");
-						console.log(`Total time to load model: ${(performance.now() - startTime).toFixed(1)}ms`);
-					}
-
-					// vertex buffer
-					const vertexBuffer = device.createBuffer({
-						label: `vertex buffer ${url}`,
-						size: vertices.byteLength,
-						usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
-						mappedAtCreation: true,
-					});
-					new Uint32Array(vertexBuffer.getMappedRange()).set(vertices);
-					vertexBuffer.unmap();
-
-					// index buffer
-					const indexBuffer = device.createBuffer({
-						label: `index buffer ${url}`,
-						size: indices.byteLength,
-						usage: GPUBufferUsage.INDEX,
-						mappedAtCreation: true,
-					});
-					if (indexSize === 2) {
-						new Uint16Array(indexBuffer.getMappedRange()).set(indices);
-					} else if (indexSize === 4) {
-						new Uint32Array(indexBuffer.getMappedRange()).set(indices);
-					} else {
-						throw new Error(`Received ${indexSize} size indices for model ${url}. Must be either 2 or 4`);
-					}
-					indexBuffer.unmap();
-
-					resolve({
-						vertexBuffer: vertexBuffer,
-						vertexCount: vertexCount,
-						indexBuffer: indexBuffer,
-						indexFormat: indexSize === 2 ? "uint16" : "uint32",
-						indexCount: indexCount,
-						triangleCount: triangleCount,
-						scale: scale,
-						offset: offset,
-						hasColor: hasColor,
-						hasUV: hasUV,
-						hasNormal: hasNormal,
-					});
-				})
-				.catch((err) => {
-					reject(`Error loading file ${url}, ${err}`);
-				});
-		} catch (err) {
-			reject(`Error loading file ${url}, ${err}`);
-		}
+	let data: ArrayBuffer;
+	try {
+		data = await fetchBuffer(url, onProgress);
+	} catch (err) {
+		throw new ModelError(ModelErrorCode.LoadFailed, url, `Failed to load model, ${err}`);
+	}
+	const bobj = parseBOBJ(data, url);
+	if (debug) {
+		console.log(bobj);
+		console.log(`Total time to load model: ${(performance.now() - startTime).toFixed(1)}ms`);
+	}
+
+	const vertexBuffer = device.createBuffer({
+		label: `vertex buffer ${url}`,
+		size: bobj.vertices.byteLength,
+		usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
+		mappedAtCreation: true,
+	});
+	new Uint32Array(vertexBuffer.getMappedRange()).set(bobj.vertices);
+	vertexBuffer.unmap();
+
+	// mapped buffer sizes must be a multiple of 4
+	const indexBuffer = device.createBuffer({
+		label: `index buffer ${url}`,
+		size: Math.ceil(bobj.indices.byteLength / 4) * 4,
+		usage: GPUBufferUsage.INDEX,
+		mappedAtCreation: true,
 	});
+	new Uint8Array(indexBuffer.getMappedRange()).set(
+		new Uint8Array(bobj.indices.buffer, bobj.indices.byteOffset, bobj.indices.byteLength),
+	);
+	indexBuffer.unmap();
+
+	return {
+		vertexBuffer: vertexBuffer,
+		vertexCount: bobj.vertexCount,
+		indexBuffer: indexBuffer,
+		indexFormat: bobj.indices instanceof Uint32Array ? "uint32" : "uint16",
+		indexCount: bobj.indices.length,
+		triangleCount: bobj.indices.length / 3,
+		scale: bobj.scale,
+		offset: bobj.offset,
+		hasColor: bobj.hasColor,
+		hasUV: bobj.hasUV,
+		hasNormal: bobj.hasNormal,
+		hasTangent: bobj.hasTangent,
+		vertexLayout: bobj.hasTangent ? VertexLayout.Tangent : VertexLayout.Standard,
+		meshes: bobj.meshes,
+		textures: {},
+		materials: {},
+	};
+}
+
+/**
+ * Decodes and validates a .bobj file, see utils/bin-obj/README.md for the format.
+ * Throws a ModelError if the file is malformed.
+ * @param url only used in error messages
+ */
+export function parseBOBJ(data: ArrayBuffer, url: string): BOBJData {
+	const view = new DataView(data);
+	let offset = 0;
 
-	function readChunks(response: Response) {
-		if (!response.ok || response.body === null) {
-			throw new Error(
-				`Failed to load model: ${url}` + !response.ok && `. Server responded with status ${response.status}.`,
+	const expectSize = (size: number, what: string) => {
+		if (data.byteLength < offset + size) {
+			throw new ModelError(
+				ModelErrorCode.Truncated,
+				url,
+				`File ends at byte ${data.byteLength} in the ${what}, expected at least ${offset + size} bytes`,
 			);
 		}
-		const reader = response.body.getReader();
-		let trailingChunkData: Uint8Array<ArrayBufferLike> | null = null;
-		return readChunk();
+	};
 
-		function readChunk() {
-			return reader.read().then(appendChunks);
+	// version 1 files have no version byte, their first byte is the index size
+	expectSize(1, "header");
+	let version = 1;
+	const versionByte = view.getUint8(0);
+	if ((versionByte & BOBJ_VERSION_FLAG) !== 0) {
+		version = versionByte & ~BOBJ_VERSION_FLAG;
+		if (version < 2 || version > BOBJ_VERSION) {
+			throw new ModelError(
+				ModelErrorCode.UnsupportedVersion,
+				url,
+				`File has version ${version}, expected 1 to ${BOBJ_VERSION}`,
+			);
 		}
+		offset += 1;
+	}
 
-		function appendChunks({ done, value }: ReadableStreamReadResult<Uint8Array<ArrayBufferLike>>): any {
-			if (done || !value) {
-				return;
-			}
-			if (trailingChunkData && trailingChunkData.length > 0) {
-				const newChunk = new Uint8Array(trailingChunkData.length + value.byteLength);
-				newChunk.set(trailingChunkData);
-				newChunk.set(value, trailingChunkData.length);
-				value = newChunk;
-				trailingChunkData = null;
-			}
+	expectSize(2 + 8 + 12 + 4 + 4, "header");
+	const indexSize = view.getUint8(offset);
+	if (indexSize !== 1 && indexSize !== 2 && indexSize !== 4) {
+		throw new ModelError(ModelErrorCode.InvalidHeader, url, `Index size is ${indexSize}, expected 1, 2 or 4`);
+	}
+	const componentMask = view.getUint8(offset + 1);
+	const knownComponents = COMPONENT_UV | COMPONENT_NORMAL | COMPONENT_COLOR | COMPONENT_TANGENT;
+	if ((componentMask & ~knownComponents) !== 0) {
+		throw new ModelError(
+			ModelErrorCode.InvalidHeader,
+			url,
+			`Component mask 0x${componentMask.toString(16)} has unknown components`,
+		);
+	}
+	const hasUV = (componentMask & COMPONENT_UV) !== 0;
+	const hasNormal = (componentMask & COMPONENT_NORMAL) !== 0;
+	const hasColor = (componentMask & COMPONENT_COLOR) !== 0;
+	const hasTangent = (componentMask & COMPONENT_TANGENT) !== 0;
+	if (hasTangent && !(hasNormal && hasUV)) {
+		throw new ModelError(ModelErrorCode.InvalidHeader, url, "Tangents require normals and uvs");
+	}
 
-			const chunkSize = value.byteLength;
-			const view = new DataView(value.buffer);
-			let readIndex = 0;
-			if (readState === ModelReadState.IndexSize && chunkSize >= 1) {
-				readState = ModelReadState.VertexComponents;
+	const scale = view.getFloat64(offset + 2, true);
+	if (!Number.isFinite(scale) || scale <= 0) {
+		throw new ModelError(ModelErrorCode.InvalidHeader, url, `Scale factor is ${scale}, expected a positive number`);
+	}
+	const modelOffset = vec3.fromValues(
+		view.getFloat32(offset + 10, true),
+		view.getFloat32(offset + 14, true),
+		view.getFloat32(offset + 18, true),
+	);
+	if (!modelOffset.every(Number.isFinite)) {
+		throw new ModelError(ModelErrorCode.InvalidHeader, url, "Model offset is not finite");
+	}
 
-				indexSize = view.getUint8(0);
-				if (debug) console.log("index size:", indexSize);
-				readIndex += 1;
-			}
-			if (readState === ModelReadState.VertexComponents && chunkSize >= 1) {
-				readState = ModelReadState.ScaleFactor;
-
-				const componentMask = view.getUint8(readIndex);
-				hasColor = (componentMask & 0x4) !== 0;
-				hasNormal = (componentMask & 0x2) !== 0;
-				hasUV = (componentMask & 0x1) !== 0;
-				if (debug) {
-					console.log("has color:", hasColor);
-					console.log("has normal:", hasNormal);
-					console.log("has uv:", hasUV);
-				}
-				readIndex += 1;
-			}
-			if (readState === ModelReadState.ScaleFactor && chunkSize - readIndex >= 8) {
-				readState = ModelReadState.ModelOffset;
+	const vertexWords = view.getUint32(offset + 22, true);
+	const wordsPerVertex = 2 + Number(hasNormal) + Number(hasUV) + Number(hasTangent);
+	if (vertexWords % wordsPerVertex !== 0) {
+		throw new ModelError(
+			ModelErrorCode.InvalidHeader,
+			url,
+			`Vertex data is ${vertexWords} words, expected a multiple of ${wordsPerVertex} words per vertex`,
+		);
+	}
+	const vertexCount = vertexWords / wordsPerVertex;
+	const indexCount = view.getUint32(offset + 26, true);
+	if (indexCount % 3 !== 0) {
+		throw new ModelError(ModelErrorCode.InvalidHeader, url, `Index count ${indexCount} is not whole triangles`);
+	}
+	offset += 30;
 
-				scale = view.getFloat64(readIndex, true);
-				if (debug) console.log("scale factor:", scale);
-				readIndex += 8;
-			}
-			if (readState === ModelReadState.ModelOffset && chunkSize - readIndex >= 12) {
-				readState = ModelReadState.VertexCount;
-
-				offset[0] = view.getFloat32(readIndex, true);
-				offset[1] = view.getFloat32(readIndex + 4, true);
-				offset[2] = view.getFloat32(readIndex + 8, true);
-				if (debug) console.log("model offset:", `(${offset[0]}, ${offset[1]}, ${offset[2]})`);
-				readIndex += 12;
-			}
-			if (readState === ModelReadState.VertexCount && chunkSize - readIndex >= 4) {
-				readState = ModelReadState.IndexCount;
-
-				vertexBufferSize = view.getUint32(readIndex, true);
-				vertexCount = vertexBufferSize / (hasUV && hasNormal ? 4 : hasUV || hasNormal ? 3 : 2);
-				vertices = new Uint32Array(vertexBufferSize);
-				if (debug) {
-					console.log("vertex buffer size (bytes):", vertexBufferSize * 4);
-					console.log("vertex count:", vertexCount);
-				}
-				readIndex += 4;
-			}
-			if (readState === ModelReadState.IndexCount && chunkSize - readIndex >= 4) {
-				readState = ModelReadState.VertexData;
-
-				indexCount = view.getUint32(readIndex, true);
-				triangleCount = indexCount / 3;
-				switch (indexSize) {
-					case 1:
-						indices = new Uint8Array(indexCount);
-						break;
-					case 2:
-						indices = new Uint16Array(indexCount);
-						break;
-					default:
-						indices = new Uint32Array(indexCount);
-						break;
-				}
-				if (debug) console.log("triangle count:", triangleCount);
-				readIndex += 4;
+	const meshes: ModelMesh[] = [];
+	if (version === 1) {
+		// the whole index buffer is a single mesh
+		meshes.push({ material: DEFAULT_MATERIAL_SLOT, firstIndex: 0, indexCount: indexCount });
+	} else {
+		expectSize(2, "mesh table");
+		const meshCount = view.getUint16(offset, true);
+		offset += 2;
+		const decoder = new TextDecoder("utf-8", { fatal: true });
+		for (let i = 0; i < meshCount; i++) {
+			expectSize(9, "mesh table");
+			const firstIndex = view.getUint32(offset, true);
+			const meshIndexCount = view.getUint32(offset + 4, true);
+			const nameLength = view.getUint8(offset + 8);
+			offset += 9;
+			expectSize(nameLength, "mesh table");
+			let material: string;
+			try {
+				material = decoder.decode(new Uint8Array(data, offset, nameLength));
+			} catch {
+				throw new ModelError(ModelErrorCode.InvalidMesh, url, `Mesh ${i} has a material name that isn't utf-8`);
 			}
-			while (readState === ModelReadState.VertexData && chunkSize - readIndex >= 4) {
-				if (vertexWriteIndex >= vertexBufferSize) {
-					readState = ModelReadState.IndexData;
-					if (debug) {
-						console.log("done reading vertices");
-						console.log(vertices);
-					}
-					break;
-				}
-				const vertex = view.getUint32(readIndex, true);
-				vertices[vertexWriteIndex] = vertex;
-				vertexWriteIndex += 1;
-				readIndex += 4;
+			offset += nameLength;
+
+			if (firstIndex % 3 !== 0 || meshIndexCount % 3 !== 0) {
+				throw new ModelError(ModelErrorCode.InvalidMesh, url, `Mesh ${material} is not whole triangles`);
 			}
-			while (
-				readState === ModelReadState.IndexData &&
-				chunkSize - readIndex >= indexSize &&
-				indicesWriteIndex < indexCount
-			) {
-				let index: any;
-				switch (indexSize) {
-					case 1:
-						index = view.getUint8(readIndex);
-						break;
-					case 2:
-						index = view.getUint16(readIndex, true);
-						break;
-					default:
-						index = view.getUint32(readIndex, true);
-						break;
-				}
-				indices[indicesWriteIndex] = index;
-				indicesWriteIndex += 1;
-				readIndex += indexSize;
-
-				if (indicesWriteIndex >= indexCount) {
-					readState = ModelReadState.Done;
-					if (debug) {
-						console.log("done reading vertex indices");
-						console.log(indices);
-					}
-				}
+			if (firstIndex + meshIndexCount > indexCount) {
+				throw new ModelError(
+					ModelErrorCode.InvalidMesh,
+					url,
+					`Mesh ${material} ends at index ${firstIndex + meshIndexCount}, past the ${indexCount} indices`,
+				);
 			}
+			meshes.push({ material: material, firstIndex: firstIndex, indexCount: meshIndexCount });
+		}
+	}
 
-			if (readIndex < chunkSize) {
-				trailingChunkData = new Uint8Array(value.buffer.slice(readIndex));
-			}
-			if (debug) console.log("reading next chunk");
-			return readChunk();
+	expectSize(vertexWords * 4, "vertex data");
+	const vertices = new Uint32Array(vertexWords);
+	for (let i = 0; i < vertexWords; i++) {
+		vertices[i] = view.getUint32(offset + i * 4, true);
+	}
+	offset += vertexWords * 4;
+
+	expectSize(indexCount * indexSize, "index data");
+	const indices = indexSize === 4 ? new Uint32Array(indexCount) : new Uint16Array(indexCount);
+	for (let i = 0; i < indexCount; i++) {
+		let index: number;
+		switch (indexSize) {
+			case 1:
+				index = view.getUint8(offset + i);
+				break;
+			case 2:
+				index = view.getUint16(offset + i * 2, true);
+				break;
+			default:
+				index = view.getUint32(offset + i * 4, true);
+				break;
+		}
+		if (index >= vertexCount) {
+			throw new ModelError(
+				ModelErrorCode.IndexOutOfRange,
+				url,
+				`Index ${i} is ${index}, past the ${vertexCount} vertices`,
+			);
 		}
+		indices[i] = index;
 	}
+	offset += indexCount * indexSize;
+
+	if (offset !== data.byteLength) {
+		throw new ModelError(
+			ModelErrorCode.InvalidHeader,
+			url,
+			`File is ${data.byteLength} bytes, but the header describes ${offset} bytes`,
+		);
+	}
+
+	return {
+		version: version,
+		hasColor: hasColor,
+		hasNormal: hasNormal,
+		hasUV: hasUV,
+		hasTangent: hasTangent,
+		scale: scale,
+		offset: modelOffset,
+		vertexCount: vertexCount,
+		vertices: vertices,
+		indices: indices,
+		meshes: meshes,
+	};
 }
@@ -0,0 +1,106 @@
+import { vec2, vec3, type Vec3 } from "wgpu-matrix";
+import { InputButton, type InputCommand } from "./Protocol";
+
+export const MOVEMENT_SETTINGS = {
+	maxVelocity: 1.0,
+	acceleration: 0.01,
+	// world units per ms at full velocity
+	speed: 0.01,
+	// velocity units per ms, while walking
+	gravity: 0.002,
+	jumpVelocity: 0.6,
+	terminalVelocity: 5.0,
+	groundHeight: 0.0,
+	eyeHeight: 1.7,
+};
+
+export enum MovementMode {
+	Walk,
+	Fly,
+}
+
+export type MovementState = {
+	position: Vec3;
+	velocity: Vec3;
+	grounded: boolean;
+};
+
+export function createMovementState(): MovementState {
+	return {
+		position: vec3.create(),
+		velocity: vec3.create(),
+		grounded: false,
+	};
+}
+
+export function copyMovementState(src: MovementState, dst: MovementState): MovementState {
+	vec3.copy(src.position, dst.position);
+	vec3.copy(src.velocity, dst.velocity);
+	dst.grounded = src.grounded;
+	return dst;
+}
+
+/**
+ * @returns the movement mode an input command was simulated with
+ */
+export function movementMode(input: InputCommand): MovementMode {
+	return input.buttons & InputButton.Fly ? MovementMode.Fly : MovementMode.Walk;
+}
+
+const inputVec = vec2.create();
+const forward = vec3.create();
+const right = vec3.create();
+const accel = vec3.create();
+
+/**
+ * Advances the movement state by one input command. The result depends only on the arguments, so replaying the
+ * same commands from the same state always gives the same position.
+ */
+export function simulateMovement(state: MovementState, input: InputCommand) {
+	const mode = movementMode(input);
+	vec2.set(input.moveX, input.moveY, inputVec);
+	// analog input can be partially pushed, so only clamp the length rather than normalizing it
+	if (vec2.length(inputVec) > 1) {
+		vec2.normalize(inputVec, inputVec);
+	}
+
+	// same basis as the camera's view direction, flattened onto the ground while walking
+	const pitch = mode === MovementMode.Fly ? Math.tan(input.pitch) : 0;
+	vec3.set(Math.cos(input.yaw - Math.PI / 2.0), pitch, Math.sin(input.yaw - Math.PI / 2.0), forward);
+	vec3.normalize(forward, forward);
+	vec3.set(Math.cos(input.yaw - Math.PI), 0, Math.sin(input.yaw - Math.PI), right);
+
+	vec3.scale(right, -inputVec[0], accel);
+	vec3.addScaled(accel, forward, inputVec[1], accel);
+
+	for (let i = 0; i < 3; i++) {
+		if (i === 1 && mode === MovementMode.Walk) {
+			continue;
+		}
+		const vel =
+			state.velocity[i] + (accel[i] - state.velocity[i]) * MOVEMENT_SETTINGS.acceleration * input.deltaTime;
+		state.velocity[i] = Math.min(MOVEMENT_SETTINGS.maxVelocity, Math.max(-MOVEMENT_SETTINGS.maxVelocity, vel));
+	}
+
+	if (mode === MovementMode.Walk) {
+		if (state.grounded && input.buttons & InputButton.Jump) {
+			state.velocity[1] = MOVEMENT_SETTINGS.jumpVelocity;
+			state.grounded = false;
+		}
+		state.velocity[1] = Math.max(
+			-MOVEMENT_SETTINGS.terminalVelocity,
+			state.velocity[1] - MOVEMENT_SETTINGS.gravity * input.deltaTime,
+		);
+	}
+
+	vec3.addScaled(state.position, state.velocity, MOVEMENT_SETTINGS.speed * input.deltaTime, state.position);
+
+	const floor = MOVEMENT_SETTINGS.groundHeight + MOVEMENT_SETTINGS.eyeHeight;
+	if (mode === MovementMode.Walk && state.position[1] <= floor) {
+		state.position[1] = floor;
+		state.velocity[1] = 0;
+		state.grounded = true;
+	} else {
+		state.grounded = false;
+	}
+}
@@ -0,0 +1,102 @@
+import { vec3, type Vec3 } from "wgpu-matrix";
+import type Camera from "./Camera";
+import type Input from "./Input";
+import { MovementMode } from "./Movement";
+import Prediction from "./Prediction";
+import { InputButton, type EntitySnapshot, type InputCommand } from "./Protocol";
+
+export const CONTROLLER_SETTINGS = {
+	mouseSensitivity: 2.0,
+	maxPitch: Math.PI / 2 - 0.0001,
+};
+
+/**
+ * Turns the player's input into movement commands for the local player, and places the camera at the result.
+ * Owns the look orientation and, through the prediction, the position and velocity.
+ */
+export default class PlayerController {
+	public yaw = 0.0;
+	public pitch = 0.0;
+	public mode = MovementMode.Fly;
+	public readonly prediction = new Prediction();
+
+	/**
+	 * Places the player at the camera's current position and orientation
+	 */
+	public reset(camera: Camera) {
+		this.place(camera.position, camera.yaw, camera.pitch);
+	}
+
+	/**
+	 * Moves the player to the position and orientation, at rest
+	 */
+	public place(position: Vec3, yaw: number, pitch: number) {
+		this.yaw = yaw;
+		this.pitch = pitch;
+		this.prediction.reset(position);
+	}
+
+	/**
+	 * Applies this frame's look input and mode toggles. Called once per rendered frame, so looking around
+	 * stays responsive regardless of the simulation rate.
+	 */
+	public look(input: Input) {
+		// rotate with the look delta, from the mouse while the pointer is locked and from the gamepad's right stick
+		this.yaw += input.dx * CONTROLLER_SETTINGS.mouseSensitivity;
+		this.pitch = Math.min(
+			CONTROLLER_SETTINGS.maxPitch,
+			Math.max(-CONTROLLER_SETTINGS.maxPitch, this.pitch - input.dy * CONTROLLER_SETTINGS.mouseSensitivity),
+		);
+
+		if (input.actionPressed("toggleFly")) {
+			this.mode = this.mode === MovementMode.Fly ? MovementMode.Walk : MovementMode.Fly;
+		}
+	}
+
+	/**
+	 * Predicts one simulation step of movement from the current input
+	 * @returns the input command applied, to be sent to the server
+	 */
+	public tick(input: Input, step: number): InputCommand {
+		let buttons = 0;
+		if (this.mode === MovementMode.Fly) {
+			buttons |= InputButton.Fly;
+		}
+		if (input.actionDown("jump")) {
+			buttons |= InputButton.Jump;
+		}
+		if (input.actionDown("primary")) {
+			buttons |= InputButton.Primary;
+		}
+		if (input.actionDown("secondary")) {
+			buttons |= InputButton.Secondary;
+		}
+
+		return this.prediction.predict({
+			deltaTime: step,
+			buttons: buttons,
+			moveX: input.actionAxis("moveLeft", "moveRight"),
+			moveY: input.actionAxis("moveBack", "moveForward"),
+			yaw: this.yaw,
+			pitch: this.pitch,
+		});
+	}
+
+	/**
+	 * Smooths out corrections from the server, called once per rendered frame
+	 */
+	public update(deltaTime: number) {
+		this.prediction.update(deltaTime);
+	}
+
+	public reconcile(authoritative: EntitySnapshot, lastInputSequence: number) {
+		this.prediction.reconcile(authoritative, lastInputSequence);
+	}
+
+	public applyToCamera(camera: Camera) {
+		camera.yaw = this.yaw;
+		camera.pitch = this.pitch;
+		vec3.copy(this.prediction.previousRenderPosition, camera.previousPosition);
+		vec3.copy(this.prediction.renderPosition, camera.position);
+	}
+}
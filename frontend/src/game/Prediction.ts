@@ -0,0 +1,122 @@
+import { vec3, type Vec3 } from "wgpu-matrix";
+import { copyMovementState, createMovementState, simulateMovement } from "./Movement";
+import type { EntitySnapshot, InputCommand } from "./Protocol";
+
+export const PREDICTION_SETTINGS = {
+	// inputs kept for replay while waiting for the server to acknowledge them
+	maxPendingInputs: 256,
+	// time constant in ms over which a visible correction is smoothed out
+	correctionTime: 100.0,
+	// corrections larger than this are applied immediately
+	snapDistance: 4.0,
+};
+
+/**
+ * @returns whether sequence number a comes after b, accounting for wraparound of the u32 counter
+ */
+export function sequenceAfter(a: number, b: number): boolean {
+	const diff = (a - b) >>> 0;
+	return diff !== 0 && diff < 0x80000000;
+}
+
+/**
+ * Client-side prediction of the local player.
+ *
+ * Each input is stamped with a sequence number and applied immediately. When the server acknowledges an input,
+ * the acknowledged state replaces the predicted one and the unacknowledged inputs are replayed on top of it.
+ * The difference to the previous prediction is kept as a visual offset which decays over time.
+ */
+export default class Prediction {
+	public readonly state = createMovementState();
+	// predicted position before the latest input, so rendering can blend between simulation steps
+	public readonly previousPosition = vec3.create();
+	public readonly renderPosition = vec3.create();
+	public readonly previousRenderPosition = vec3.create();
+
+	private readonly pending: InputCommand[] = [];
+	private readonly replayState = createMovementState();
+	private readonly correction = vec3.create();
+	private sequence = 0;
+	private lastAcknowledged = 0;
+
+	/**
+	 * Stamps the input with the next sequence number and applies it to the predicted state
+	 * @returns the stamped input command, to be sent to the server
+	 */
+	public predict(input: Omit<InputCommand, "sequence">): InputCommand {
+		this.sequence = (this.sequence + 1) >>> 0;
+		// quantize to the precision of the wire format, so the server simulates the same values
+		const command: InputCommand = {
+			sequence: this.sequence,
+			deltaTime: Math.fround(input.deltaTime),
+			buttons: input.buttons >>> 0,
+			moveX: Math.fround(input.moveX),
+			moveY: Math.fround(input.moveY),
+			yaw: Math.fround(input.yaw),
+			pitch: Math.fround(input.pitch),
+		};
+
+		vec3.copy(this.state.position, this.previousPosition);
+		simulateMovement(this.state, command);
+		this.pending.push(command);
+		if (this.pending.length > PREDICTION_SETTINGS.maxPendingInputs) {
+			this.pending.shift();
+		}
+		return command;
+	}
+
+	/**
+	 * Rewinds to the server's state of the local player and replays the inputs it hasn't processed yet
+	 * @param authoritative the local player's entity state from a snapshot
+	 * @param lastInputSequence the last input sequence the server processed for that snapshot
+	 */
+	public reconcile(authoritative: EntitySnapshot, lastInputSequence: number) {
+		if (this.lastAcknowledged !== 0 && !sequenceAfter(lastInputSequence, this.lastAcknowledged)) {
+			// stale or duplicate snapshot
+			return;
+		}
+		this.lastAcknowledged = lastInputSequence;
+
+		while (this.pending.length > 0 && !sequenceAfter(this.pending[0].sequence, lastInputSequence)) {
+			this.pending.shift();
+		}
+
+		copyMovementState(this.state, this.replayState);
+		vec3.copy(authoritative.position, this.state.position);
+		vec3.copy(authoritative.velocity, this.state.velocity);
+		for (const input of this.pending) {
+			simulateMovement(this.state, input);
+		}
+
+		// keep drawing at the old prediction, and blend towards the new one
+		vec3.add(this.correction, this.replayState.position, this.correction);
+		vec3.sub(this.correction, this.state.position, this.correction);
+		vec3.sub(this.previousPosition, this.replayState.position, this.previousPosition);
+		vec3.add(this.previousPosition, this.state.position, this.previousPosition);
+		if (vec3.length(this.correction) > PREDICTION_SETTINGS.snapDistance) {
+			vec3.zero(this.correction);
+		}
+	}
+
+	/**
+	 * Places the predicted position or teleports the player, discarding pending inputs and corrections
+	 */
+	public reset(position: Vec3) {
+		vec3.copy(position, this.state.position);
+		vec3.copy(position, this.previousPosition);
+		vec3.zero(this.state.velocity);
+		vec3.zero(this.correction);
+		vec3.copy(position, this.renderPosition);
+		vec3.copy(position, this.previousRenderPosition);
+		this.pending.length = 0;
+	}
+
+	/**
+	 * Decays the visual correction and updates the render positions
+	 */
+	public update(deltaTime: number) {
+		vec3.scale(this.correction, Math.exp(-deltaTime / PREDICTION_SETTINGS.correctionTime), this.correction);
+		vec3.add(this.state.position, this.correction, this.renderPosition);
+		vec3.add(this.previousPosition, this.correction, this.previousRenderPosition);
+	}
+}
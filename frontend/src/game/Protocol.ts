@@ -0,0 +1,297 @@
+import { quat, vec3, type Quat, type Vec3 } from "wgpu-matrix";
+
+/**
+ * Binary message protocol shared by the main thread, the wasm worker and the server.
+ *
+ * Every message starts with a two byte header, [version: u8, opcode: u8], followed by the opcode's payload.
+ * All multi-byte values are little endian.
+ */
+export const PROTOCOL_VERSION = 1;
+export const HEADER_SIZE = 2;
+export const NO_CLIENT_ID = 0xffff;
+
+export enum Opcode {
+	Input = 1,
+	Snapshot = 2,
+	ConnectionStatus = 3,
+	Error = 4,
+}
+
+export enum ConnectionStatus {
+	Connecting,
+	Open,
+	Closed,
+}
+
+export enum ErrorCode {
+	Unknown,
+	InvalidMessage,
+	UnsupportedVersion,
+	SocketError,
+}
+
+export enum EntityEvent {
+	Spawn,
+	Update,
+	Despawn,
+}
+
+/**
+ * Bit flags for the digital buttons of an input command
+ */
+export enum InputButton {
+	Jump = 1 << 0,
+	Crouch = 1 << 1,
+	Sprint = 1 << 2,
+	Primary = 1 << 3,
+	Secondary = 1 << 4,
+	Fly = 1 << 5,
+}
+
+export type InputCommand = {
+	sequence: number;
+	deltaTime: number;
+	buttons: number;
+	moveX: number;
+	moveY: number;
+	yaw: number;
+	pitch: number;
+};
+
+export type EntitySnapshot = {
+	id: number;
+	event: EntityEvent;
+	position: Vec3;
+	rotation: Quat;
+	velocity: Vec3;
+};
+
+export type Snapshot = {
+	tick: number;
+	serverTime: number;
+	lastInputSequence: number;
+	entities: EntitySnapshot[];
+};
+
+export type Message =
+	| { opcode: Opcode.Input; input: InputCommand }
+	| { opcode: Opcode.Snapshot; snapshot: Snapshot }
+	| { opcode: Opcode.ConnectionStatus; status: ConnectionStatus; clientId: number }
+	| { opcode: Opcode.Error; code: ErrorCode; message: string };
+
+export type MessageTarget = {
+	postMessage: (message: unknown, options: StructuredSerializeOptions) => void;
+};
+
+export class ProtocolError extends Error {
+	public readonly code: ErrorCode;
+
+	constructor(code: ErrorCode, message: string) {
+		super(message);
+		this.name = "ProtocolError";
+		this.code = code;
+	}
+}
+
+const INPUT_SIZE = 4 + 4 + 4 + 4 * 4;
+const SNAPSHOT_SIZE = 4 + 8 + 4 + 2;
+const ENTITY_SIZE = 2 + 1 + 3 * 4 + 4 * 4 + 3 * 4;
+const CONNECTION_STATUS_SIZE = 1 + 2;
+const ERROR_SIZE = 2 + 2;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Serializes a message into a new buffer, which may be transferred to another thread.
+ */
+export function encodeMessage(message: Message): ArrayBuffer {
+	let errorText: Uint8Array | null = null;
+	let size = HEADER_SIZE;
+	switch (message.opcode) {
+		case Opcode.Input:
+			size += INPUT_SIZE;
+			break;
+		case Opcode.Snapshot:
+			size += SNAPSHOT_SIZE + message.snapshot.entities.length * ENTITY_SIZE;
+			break;
+		case Opcode.ConnectionStatus:
+			size += CONNECTION_STATUS_SIZE;
+			break;
+		case Opcode.Error:
+			errorText = textEncoder.encode(message.message).subarray(0, 0xffff);
+			size += ERROR_SIZE + errorText.byteLength;
+			break;
+	}
+
+	const buffer = new ArrayBuffer(size);
+	const view = new DataView(buffer);
+	view.setUint8(0, PROTOCOL_VERSION);
+	view.setUint8(1, message.opcode);
+	let offset = HEADER_SIZE;
+
+	switch (message.opcode) {
+		case Opcode.Input: {
+			const input = message.input;
+			view.setUint32(offset, input.sequence, true);
+			view.setFloat32(offset + 4, input.deltaTime, true);
+			view.setUint32(offset + 8, input.buttons, true);
+			view.setFloat32(offset + 12, input.moveX, true);
+			view.setFloat32(offset + 16, input.moveY, true);
+			view.setFloat32(offset + 20, input.yaw, true);
+			view.setFloat32(offset + 24, input.pitch, true);
+			break;
+		}
+		case Opcode.Snapshot: {
+			const snapshot = message.snapshot;
+			view.setUint32(offset, snapshot.tick, true);
+			view.setFloat64(offset + 4, snapshot.serverTime, true);
+			view.setUint32(offset + 12, snapshot.lastInputSequence, true);
+			view.setUint16(offset + 16, snapshot.entities.length, true);
+			offset += SNAPSHOT_SIZE;
+			for (const entity of snapshot.entities) {
+				view.setUint16(offset, entity.id, true);
+				view.setUint8(offset + 2, entity.event);
+				offset += 3;
+				for (const component of [entity.position, entity.rotation, entity.velocity]) {
+					for (let i = 0; i < component.length; i++) {
+						view.setFloat32(offset, component[i], true);
+						offset += 4;
+					}
+				}
+			}
+			break;
+		}
+		case Opcode.ConnectionStatus:
+			view.setUint8(offset, message.status);
+			view.setUint16(offset + 1, message.clientId, true);
+			break;
+		case Opcode.Error:
+			view.setUint16(offset, message.code, true);
+			view.setUint16(offset + 2, errorText!.byteLength, true);
+			new Uint8Array(buffer, offset + ERROR_SIZE).set(errorText!);
+			break;
+	}
+
+	return buffer;
+}
+
+/**
+ * Reads the opcode of a message without decoding its payload.
+ * Throws a ProtocolError if the header is invalid.
+ */
+export function peekOpcode(buffer: ArrayBuffer): Opcode {
+	if (buffer.byteLength < HEADER_SIZE) {
+		throw new ProtocolError(ErrorCode.InvalidMessage, `Message of ${buffer.byteLength} bytes has no header`);
+	}
+	const view = new DataView(buffer);
+	const version = view.getUint8(0);
+	if (version !== PROTOCOL_VERSION) {
+		throw new ProtocolError(
+			ErrorCode.UnsupportedVersion,
+			`Received protocol version ${version}, expected ${PROTOCOL_VERSION}`,
+		);
+	}
+	const opcode = view.getUint8(1);
+	if (!(opcode in Opcode)) {
+		throw new ProtocolError(ErrorCode.InvalidMessage, `Unknown opcode ${opcode}`);
+	}
+	return opcode;
+}
+
+/**
+ * Deserializes a message. Throws a ProtocolError if the message is malformed.
+ */
+export function decodeMessage(buffer: ArrayBuffer): Message {
+	const opcode = peekOpcode(buffer);
+	const view = new DataView(buffer);
+	let offset = HEADER_SIZE;
+
+	const expectSize = (size: number) => {
+		if (buffer.byteLength < size) {
+			throw new ProtocolError(
+				ErrorCode.InvalidMessage,
+				`${Opcode[opcode]} message is ${buffer.byteLength} bytes, expected at least ${size}`,
+			);
+		}
+	};
+
+	switch (opcode) {
+		case Opcode.Input: {
+			expectSize(HEADER_SIZE + INPUT_SIZE);
+			return {
+				opcode: opcode,
+				input: {
+					sequence: view.getUint32(offset, true),
+					deltaTime: view.getFloat32(offset + 4, true),
+					buttons: view.getUint32(offset + 8, true),
+					moveX: view.getFloat32(offset + 12, true),
+					moveY: view.getFloat32(offset + 16, true),
+					yaw: view.getFloat32(offset + 20, true),
+					pitch: view.getFloat32(offset + 24, true),
+				},
+			};
+		}
+		case Opcode.Snapshot: {
+			expectSize(HEADER_SIZE + SNAPSHOT_SIZE);
+			const entityCount = view.getUint16(offset + 16, true);
+			expectSize(HEADER_SIZE + SNAPSHOT_SIZE + entityCount * ENTITY_SIZE);
+			const snapshot: Snapshot = {
+				tick: view.getUint32(offset, true),
+				serverTime: view.getFloat64(offset + 4, true),
+				lastInputSequence: view.getUint32(offset + 12, true),
+				entities: new Array(entityCount),
+			};
+			offset += SNAPSHOT_SIZE;
+			for (let i = 0; i < entityCount; i++) {
+				const event = view.getUint8(offset + 2);
+				if (!(event in EntityEvent)) {
+					throw new ProtocolError(ErrorCode.InvalidMessage, `Unknown entity event ${event}`);
+				}
+				const entity: EntitySnapshot = {
+					id: view.getUint16(offset, true),
+					event: event,
+					position: vec3.create(),
+					rotation: quat.create(),
+					velocity: vec3.create(),
+				};
+				offset += 3;
+				for (const component of [entity.position, entity.rotation, entity.velocity]) {
+					for (let k = 0; k < component.length; k++) {
+						component[k] = view.getFloat32(offset, true);
+						offset += 4;
+					}
+				}
+				snapshot.entities[i] = entity;
+			}
+			return { opcode: opcode, snapshot: snapshot };
+		}
+		case Opcode.ConnectionStatus: {
+			expectSize(HEADER_SIZE + CONNECTION_STATUS_SIZE);
+			const status = view.getUint8(offset);
+			if (!(status in ConnectionStatus)) {
+				throw new ProtocolError(ErrorCode.InvalidMessage, `Unknown connection status ${status}`);
+			}
+			return { opcode: opcode, status: status, clientId: view.getUint16(offset + 1, true) };
+		}
+		case Opcode.Error: {
+			expectSize(HEADER_SIZE + ERROR_SIZE);
+			const code = view.getUint16(offset, true);
+			const length = view.getUint16(offset + 2, true);
+			expectSize(HEADER_SIZE + ERROR_SIZE + length);
+			return {
+				opcode: opcode,
+				code: code in ErrorCode ? code : ErrorCode.Unknown,
+				message: textDecoder.decode(new Uint8Array(buffer, offset + ERROR_SIZE, length)),
+			};
+		}
+	}
+}
+
+/**
+ * Encodes and posts a message to a worker or the main thread, transferring the underlying buffer.
+ */
+export function postProtocolMessage(target: MessageTarget, message: Message) {
+	const buffer = encodeMessage(message);
+	target.postMessage(buffer, { transfer: [buffer] });
+}
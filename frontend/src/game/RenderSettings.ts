@@ -0,0 +1,73 @@
+import { POSTFX_SETTINGS, RESOLUTION_SETTINGS, SHADOW_SETTINGS, SKY_SETTINGS, SSAO_SETTINGS } from "./Renderer";
+
+export type RenderSettingsGroups = {
+	ssao: typeof SSAO_SETTINGS;
+	shadows: typeof SHADOW_SETTINGS;
+	sky: typeof SKY_SETTINGS;
+	postFX: typeof POSTFX_SETTINGS;
+	resolution: typeof RESOLUTION_SETTINGS;
+};
+export type RenderSettingsGroup = keyof RenderSettingsGroups;
+
+/**
+ * Called with the settings a change touched, as "group.setting" keys, e.g. "ssao.sampleCount"
+ */
+export type RenderSettingsListener = (changed: ReadonlySet<string>) => void;
+
+/**
+ * Runtime access to the render settings. Changes are written into the settings objects and passed on to the
+ * listeners, so whatever was built from the old values can be rebuilt.
+ */
+export default class RenderSettings {
+	private readonly groups: RenderSettingsGroups = {
+		ssao: SSAO_SETTINGS,
+		shadows: SHADOW_SETTINGS,
+		sky: SKY_SETTINGS,
+		postFX: POSTFX_SETTINGS,
+		resolution: RESOLUTION_SETTINGS,
+	};
+	private readonly listeners = new Set<RenderSettingsListener>();
+
+	public get<G extends RenderSettingsGroup>(group: G): Readonly<RenderSettingsGroups[G]> {
+		return this.groups[group];
+	}
+
+	/**
+	 * Changes some of a group's settings. Only the settings that differ from their current values are changed and
+	 * passed on to the listeners.
+	 * @throws Error if the change alters the number of shadow cascades, which the shaders are built for
+	 */
+	public set<G extends RenderSettingsGroup>(group: G, values: Partial<RenderSettingsGroups[G]>) {
+		const cascades =
+			group === "shadows" ? (values as Partial<RenderSettingsGroups["shadows"]>).cascades : undefined;
+		if (cascades && cascades.length !== SHADOW_SETTINGS.cascades.length) {
+			throw new Error(`The number of shadow cascades is fixed at ${SHADOW_SETTINGS.cascades.length}`);
+		}
+
+		const settings = this.groups[group] as Record<string, unknown>;
+		const changed = new Set<string>();
+		for (const [key, value] of Object.entries(values)) {
+			if (value === undefined || JSON.stringify(value) === JSON.stringify(settings[key])) {
+				continue;
+			}
+			// copied, so later changes to the caller's objects don't bypass the listeners
+			settings[key] = structuredClone(value);
+			changed.add(`${group}.${key}`);
+		}
+		if (changed.size === 0) {
+			return;
+		}
+		for (const listener of this.listeners) {
+			listener(changed);
+		}
+	}
+
+	/**
+	 * Calls the listener after each change
+	 * @returns a function that removes the listener
+	 */
+	public onChange(listener: RenderSettingsListener): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+}
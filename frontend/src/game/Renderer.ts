@@ -1,15 +1,17 @@
 import Camera from "./Camera";
-import { mat4, vec2, vec3, vec4, type Mat4, type Vec2, type Vec3, type Vec4 } from "wgpu-matrix";
+import { mat4, quat, vec3, vec4, type Mat4, type Vec4 } from "wgpu-matrix";
 import type Input from "./Input";
 import type { RenderContext } from "./Game";
-import { loadShaders, type Shaders } from "./Shaders";
+import { loadShaders, loadTemplatedShaders, type Shaders } from "./Shaders";
 import Transform from "./Transform";
-import Model, { loadBOBJ } from "./Model";
+import Model, { VERTEX_LAYOUTS, VertexLayout, type ModelData } from "./Model";
 import Sky from "./Sky";
-
-const MAX_VEL = 1.0;
-const ACCEL = 0.01;
-const MOUSE_SENSITIVITY = 2.0;
+import TextureLoader from "./TextureLoader";
+import { createMaterialDefaults, MATERIAL_MAPS, type MaterialDefaults } from "./Material";
+import AssetManager, { type HDRAsset } from "./AssetManager";
+import Lights from "./Lights";
+import RenderSettings from "./RenderSettings";
+import DynamicResolution from "./DynamicResolution";
 
 export const DEBUG_GRAPHICS_TIME = true;
 export const SSAO_SETTINGS = {
@@ -26,6 +28,7 @@ export const SSAO_SETTINGS = {
 export const SHADOW_SETTINGS = {
 	debugCascades: false,
 	resolution: 2048,
+	// at most 64, the number of samples in the shadow kernel
 	kernelSize: 64,
 	fadeDistance: 10.0,
 	cascades: [
@@ -65,8 +68,20 @@ export const SUN_SETTINGS = {
 	// intensity: 0,
 	intensity: 4.25,
 };
+export const LIGHT_SETTINGS = {
+	// lights past this aren't drawn
+	maxLights: 256,
+	// screen tiles across and down, and depth slices
+	clusterSize: [16, 9, 24] as [number, number, number],
+	// lights past this in a single cluster are dropped from it
+	maxClusterLights: 64,
+};
 export const SKY_SETTINGS = {
-	skyboxSource: "sky",
+	skyboxSource: "sky" as HDRAsset,
+	// skybox and lighting maps exported with exportSkyBake, used instead of the hdr when the file exists
+	bakedSource: "/sky.ibl" as string | null,
+	// the baked skybox is stored at this lower resolution, as it's far larger than the lighting maps
+	bakedSkyboxResolution: 512,
 	skyboxResolution: 2048,
 	irradianceResolution: 64,
 	irradianceSampleDelta: 0.025,
@@ -88,7 +103,71 @@ export const POSTFX_SETTINGS = {
 	contrast: 1.05,
 	brightness: 0.0,
 	gamma: 2.0,
+	// scene brightness bloom starts at, before exposure
+	bloomThreshold: 1.0,
+	// fraction of the bloom added to the scene
+	bloomIntensity: 0.05,
+	// levels of the bloom chain, each half the size of the last, more levels spread the bloom wider
+	bloomMipLevels: 6,
 };
+export const RESOLUTION_SETTINGS = {
+	// the scene is drawn at this fraction of the canvas size, and upscaled by the post processing pass
+	renderScale: 1.0,
+	// lowers the resolution below renderScale while frames take longer than targetFrameTime, in ms
+	dynamic: true,
+	targetFrameTime: 1000 / 60,
+	// lowest fraction of renderScale the resolution is lowered to
+	minScale: 0.5,
+	// frames up to this fraction over the target still count as on target
+	tolerance: 0.1,
+	// the resolution is raised again once the gpu time is under this fraction of the target
+	headroom: 0.8,
+	// least time between changes in ms, each one rebuilds the screen textures
+	adjustInterval: 500,
+};
+
+/**
+ * @param positionOnly only include the position attribute, for the depth-only passes
+ */
+function modelVertexBufferLayout(layout: VertexLayout, positionOnly: boolean): GPUVertexBufferLayout {
+	const attributes: GPUVertexAttribute[] = [
+		{
+			// xyzc
+			shaderLocation: 0,
+			offset: 0,
+			format: "uint32x2",
+		},
+	];
+	if (!positionOnly) {
+		attributes.push(
+			{
+				// normal
+				shaderLocation: 1,
+				offset: 2 * 4,
+				format: "uint32",
+			},
+			{
+				// uv
+				shaderLocation: 2,
+				offset: 3 * 4,
+				format: "uint32",
+			},
+		);
+		if (layout === VertexLayout.Tangent) {
+			attributes.push({
+				// tangent
+				shaderLocation: 3,
+				offset: 4 * 4,
+				format: "uint32",
+			});
+		}
+	}
+	return {
+		arrayStride: (layout === VertexLayout.Tangent ? 5 : 4) * 4,
+		stepMode: "vertex",
+		attributes: attributes,
+	};
+}
 
 export default class Renderer {
 	private readonly canvas: HTMLCanvasElement;
@@ -106,10 +185,13 @@ export default class Renderer {
 	private readonly uniformBuffers: {
 		camera: GPUBuffer;
 		shadows: GPUBuffer;
+		clusters: GPUBuffer;
 	};
 	private readonly uniformBufferData: {
 		camera: Float32Array;
 		shadows: Float32Array;
+		// cluster size, light count, near and far
+		clusters: Uint32Array;
 	};
 	private globalUniformBindGroupLayouts: {
 		camera: GPUBindGroupLayout;
@@ -117,6 +199,7 @@ export default class Renderer {
 		depth: GPUBindGroupLayout;
 		scene: GPUBindGroupLayout;
 		ssao: GPUBindGroupLayout;
+		lightClusters: GPUBindGroupLayout;
 	};
 	private globalUniformBindGroups: {
 		camera: GPUBindGroup | null;
@@ -129,17 +212,27 @@ export default class Renderer {
 		ssaoBlurKernelX: GPUBindGroup | null;
 		ssaoBlurKernelY: GPUBindGroup | null;
 		ssaoUpscale: GPUBindGroup | null;
+		// the prefilter followed by the downsample of each further level
+		bloomDownsample: GPUBindGroup[];
+		// the upsample of each level, from the smallest
+		bloomUpsample: GPUBindGroup[];
 		drawTexture: GPUBindGroup | null;
+		lightClusters: GPUBindGroup;
 	};
 	private readonly pipelines: {
-		PBR: GPURenderPipeline;
-		depth: GPURenderPipeline;
-		shadows: GPURenderPipeline;
+		// the model pipelines, indexed by VertexLayout
+		PBR: GPURenderPipeline[];
+		depth: GPURenderPipeline[];
+		shadows: GPURenderPipeline[];
 		postFX: GPURenderPipeline;
 		ssao: GPUComputePipeline;
 		ssaoBlurX: GPUComputePipeline;
 		ssaoBlurY: GPUComputePipeline;
 		ssaoUpscale: GPUComputePipeline;
+		bloomPrefilter: GPUComputePipeline;
+		bloomDownsample: GPUComputePipeline;
+		bloomUpsample: GPUComputePipeline;
+		lightClusters: GPUComputePipeline;
 	};
 	private renderPassDescriptors: {
 		depthPass: GPURenderPassDescriptor;
@@ -152,37 +245,87 @@ export default class Renderer {
 		ssaoBlurX: GPUComputePassDescriptor;
 		ssaoBlurY: GPUComputePassDescriptor;
 		ssaoUpscale: GPUComputePassDescriptor;
+		bloom: GPUComputePassDescriptor;
+		lightClusters: GPUComputePassDescriptor;
 	};
 	private shadowData: {
 		texture: GPUTexture | null;
 	};
+	// the screen textures, kept to build the bind groups from and to destroy them once they're replaced
+	private screenData: {
+		width: number;
+		height: number;
+		depthTexture: GPUTexture;
+		normalTexture: GPUTexture;
+		sceneDrawTexture: GPUTexture;
+		sceneResolveTexture: GPUTexture;
+		ssaoTexture: GPUTexture;
+		ssaoBlurXTexture: GPUTexture;
+		ssaoUpscaleTexture: GPUTexture;
+		// the downsampled levels of the bloom chain, and the upsampled ones above the smallest
+		bloomDownTexture: GPUTexture;
+		bloomUpTexture: GPUTexture;
+		screenOutputTexture: GPUTexture;
+		screenSizeBuffer: GPUBuffer;
+	} | null = null;
+	private readonly dynamicResolution = new DynamicResolution();
+	private lastDrawTime: number | null = null;
+	// debug toggle that stops the shadow cascades from following the camera
+	private shadowsFrozen = false;
 	private readonly presentationFormat: GPUTextureFormat;
 
 	private readonly shaders: Shaders;
-	private readonly camera: Camera;
+	public readonly camera: Camera;
 	private readonly sky: Sky;
 	private objects: Model[] = [];
+	private readonly transformBindGroupLayout: GPUBindGroupLayout;
+	private readonly textureLoader: TextureLoader;
+	private readonly materialDefaults: MaterialDefaults;
+	public readonly assets: AssetManager;
+	// point and spot lights, binned into view space clusters each frame
+	public readonly lights: Lights;
+	public readonly settings: RenderSettings;
+	// settings changed since the last rebuild started, applied at the start of the next frame
+	private readonly changedSettings = new Set<string>();
+	private settingsRebuild: Promise<void> | null = null;
+	// per cluster, the light count followed by LIGHT_SETTINGS.maxClusterLights light indices
+	private readonly clusterLightsBuffer: GPUBuffer;
 	private postFXQuad: {
 		vertexBuffer: GPUBuffer;
 		sampler: GPUSampler;
 	};
 
-	private readonly inputVec: Vec2 = vec2.create();
-	private readonly accel: Vec3 = vec3.create();
-	private readonly vel: Vec3 = vec3.create();
-	private readonly accelY: Vec3 = vec3.create();
-
-	constructor(canvas: HTMLCanvasElement, context: RenderContext) {
+	/**
+	 * @param settings changes to the settings are applied from the next frame on
+	 */
+	constructor(canvas: HTMLCanvasElement, context: RenderContext, settings: RenderSettings) {
 		this.canvas = canvas;
 		this.device = context.device;
 		this.adapter = context.adapter;
 		this.ctx = context.ctx;
 
 		this.shaders = loadShaders(this.device);
+		this.textureLoader = new TextureLoader(this.device, this.shaders);
+		this.materialDefaults = createMaterialDefaults(this.device, this.textureLoader);
+		this.assets = new AssetManager(this.device, this.textureLoader);
+		this.lights = new Lights(this.device, LIGHT_SETTINGS.maxLights);
+		this.settings = settings;
+		this.settings.onChange((changed) => {
+			for (const key of changed) {
+				this.changedSettings.add(key);
+			}
+		});
+		const [clustersX, clustersY, clustersZ] = LIGHT_SETTINGS.clusterSize;
+		this.clusterLightsBuffer = this.device.createBuffer({
+			label: "cluster lights storage buffer",
+			size: clustersX * clustersY * clustersZ * (LIGHT_SETTINGS.maxClusterLights + 1) * 4,
+			usage: GPUBufferUsage.STORAGE,
+		});
 
 		this.camera = new Camera(canvas);
 		this.camera.position[1] = 5.0;
 		this.camera.position[2] = 25.0;
+		vec3.copy(this.camera.position, this.camera.previousPosition);
 
 		this.presentationFormat = navigator.gpu.getPreferredCanvasFormat();
 		this.ctx.configure({
@@ -327,6 +470,25 @@ export default class Renderer {
 					visibility: GPUShaderStage.FRAGMENT,
 					buffer: {},
 				},
+				{
+					binding: 11,
+					visibility: GPUShaderStage.FRAGMENT,
+					buffer: {
+						type: "read-only-storage",
+					},
+				},
+				{
+					binding: 12,
+					visibility: GPUShaderStage.FRAGMENT,
+					buffer: {
+						type: "read-only-storage",
+					},
+				},
+				{
+					binding: 13,
+					visibility: GPUShaderStage.FRAGMENT,
+					buffer: {},
+				},
 			],
 		});
 		const ssaoBindGroupLayout = this.device.createBindGroupLayout({
@@ -361,14 +523,40 @@ export default class Renderer {
 				},
 			],
 		});
+		const lightClustersBindGroupLayout = this.device.createBindGroupLayout({
+			label: "light clusters bind group layout",
+			entries: [
+				{
+					binding: 0,
+					visibility: GPUShaderStage.COMPUTE,
+					buffer: {
+						type: "read-only-storage",
+					},
+				},
+				{
+					binding: 1,
+					visibility: GPUShaderStage.COMPUTE,
+					buffer: {
+						type: "storage",
+					},
+				},
+				{
+					binding: 2,
+					visibility: GPUShaderStage.COMPUTE,
+					buffer: {},
+				},
+			],
+		});
 		this.globalUniformBindGroupLayouts = {
 			camera: cameraBindGroupLayout,
 			shadows: shadowsBindGroupLayout,
 			depth: depthBindGroupLayout,
 			scene: sceneBindGroupLayout,
 			ssao: ssaoBindGroupLayout,
+			lightClusters: lightClustersBindGroupLayout,
 		};
-		const transformBindGroupLayout = this.device.createBindGroupLayout({
+		// per-model transform and material, the material is only read by the pbr pass
+		this.transformBindGroupLayout = this.device.createBindGroupLayout({
 			label: "transform bind group layout",
 			entries: [
 				{
@@ -376,272 +564,142 @@ export default class Renderer {
 					visibility: GPUShaderStage.VERTEX,
 					buffer: {},
 				},
+				{
+					binding: 1,
+					visibility: GPUShaderStage.FRAGMENT,
+					buffer: {},
+				},
+				{
+					binding: 2,
+					visibility: GPUShaderStage.FRAGMENT,
+					sampler: {},
+				},
+				...MATERIAL_MAPS.map((_, i) => ({
+					binding: 3 + i,
+					visibility: GPUShaderStage.FRAGMENT,
+					texture: {},
+				})),
 			],
 		});
 
 		// pipelines for drawing the pbr scene models
 		const depthPrepassPipelineLayout = this.device.createPipelineLayout({
 			label: "depth prepass layout",
-			bindGroupLayouts: [this.globalUniformBindGroupLayouts.camera, transformBindGroupLayout],
-		});
-		const depthPrepassRenderPipeline = this.device.createRenderPipeline({
-			label: "depth prepass",
-			layout: depthPrepassPipelineLayout,
-			vertex: {
-				module: this.shaders.depth,
-				entryPoint: "vs",
-				buffers: [
-					{
-						arrayStride: 4 * 4,
-						stepMode: "vertex",
-						attributes: [
-							{
-								//xyzc
-								shaderLocation: 0,
-								offset: 0,
-								format: "uint32x2",
-							},
-						],
-					},
-				],
-			},
-			fragment: {
-				module: this.shaders.depth,
-				entryPoint: "fs",
-				targets: [
-					{
-						format: "rgba16float",
-					},
-				],
-			},
-			primitive: {
-				topology: "triangle-list",
-				cullMode: "back",
-			},
-			depthStencil: {
-				depthWriteEnabled: true,
-				depthCompare: "less",
-				format: "depth32float",
-			},
-			multisample: {
-				count: 4,
-			},
+			bindGroupLayouts: [this.globalUniformBindGroupLayouts.camera, this.transformBindGroupLayout],
 		});
+		const depthPrepassRenderPipelines = VERTEX_LAYOUTS.map((layout) =>
+			this.device.createRenderPipeline({
+				label: `depth prepass ${VertexLayout[layout]}`,
+				layout: depthPrepassPipelineLayout,
+				vertex: {
+					module: this.shaders.depth,
+					entryPoint: "vs",
+					buffers: [modelVertexBufferLayout(layout, true)],
+				},
+				fragment: {
+					module: this.shaders.depth,
+					entryPoint: "fs",
+					targets: [
+						{
+							format: "rgba16float",
+						},
+					],
+				},
+				primitive: {
+					topology: "triangle-list",
+					cullMode: "back",
+				},
+				depthStencil: {
+					depthWriteEnabled: true,
+					depthCompare: "less",
+					format: "depth32float",
+				},
+				multisample: {
+					count: 4,
+				},
+			}),
+		);
 		const shadowDepthPipelineLayout = this.device.createPipelineLayout({
 			label: "shadow pass layout",
-			bindGroupLayouts: [this.globalUniformBindGroupLayouts.shadows, transformBindGroupLayout],
-		});
-		const shadowDepthRenderPipeline = this.device.createRenderPipeline({
-			label: "shadow depth pass pipeline",
-			layout: shadowDepthPipelineLayout,
-			vertex: {
-				module: this.shaders.shadows,
-				entryPoint: "vs",
-				buffers: [
-					{
-						arrayStride: 4 * 4,
-						stepMode: "vertex",
-						attributes: [
-							{
-								//xyzc
-								shaderLocation: 0,
-								offset: 0,
-								format: "uint32x2",
-							},
-						],
-					},
-				],
-			},
-			fragment: {
-				module: this.shaders.shadows,
-				entryPoint: "fs",
-				targets: [],
-			},
-			primitive: {
-				topology: "triangle-list",
-				cullMode: "back",
-			},
-			depthStencil: {
-				depthBias: 0.05,
-				depthBiasSlopeScale: 2.0,
-				depthWriteEnabled: true,
-				depthCompare: "less",
-				format: "depth32float",
-			},
-		});
-
-		const PBRPipelineLayout = this.device.createPipelineLayout({
-			label: "PBR render pipeline layout",
-			bindGroupLayouts: [
-				this.globalUniformBindGroupLayouts.camera,
-				transformBindGroupLayout,
-				this.globalUniformBindGroupLayouts.depth,
-				this.globalUniformBindGroupLayouts.scene,
-			],
+			bindGroupLayouts: [this.globalUniformBindGroupLayouts.shadows, this.transformBindGroupLayout],
 		});
-		const PBRRenderPipeline = this.device.createRenderPipeline({
-			label: "render pipeline",
-			layout: PBRPipelineLayout,
-			vertex: {
-				module: this.shaders.PBR,
-				entryPoint: "vs",
-				buffers: [
-					{
-						arrayStride: 4 * 4,
-						stepMode: "vertex",
-						attributes: [
-							{
-								// xyzc
-								shaderLocation: 0,
-								offset: 0,
-								format: "uint32x2",
-							},
-							{
-								// normal
-								shaderLocation: 1,
-								offset: 2 * 4,
-								format: "uint32",
-							},
-							{
-								// uv
-								shaderLocation: 2,
-								offset: 3 * 4,
-								format: "uint32",
-							},
-						],
-					},
-				],
-			},
-			fragment: {
-				module: this.shaders.PBR,
-				entryPoint: "fs",
-				targets: [{ format: "rgba16float" }],
-				constants: {
-					near: this.camera.near,
-					// far: this.camera.far,
-					debug_cascades: SHADOW_SETTINGS.debugCascades ? 1 : 0,
-					shadow_fade_distance: SHADOW_SETTINGS.fadeDistance,
-					fog_start: SKY_SETTINGS.fogStart,
-					fog_end: SKY_SETTINGS.fogEnd,
-					fog_mip_level: SKY_SETTINGS.fogMipLevel,
+		const shadowDepthRenderPipelines = VERTEX_LAYOUTS.map((layout) =>
+			this.device.createRenderPipeline({
+				label: `shadow depth pass pipeline ${VertexLayout[layout]}`,
+				layout: shadowDepthPipelineLayout,
+				vertex: {
+					module: this.shaders.shadows,
+					entryPoint: "vs",
+					buffers: [modelVertexBufferLayout(layout, true)],
 				},
-			},
-			primitive: {
-				topology: "triangle-list",
-				cullMode: "back",
-			},
-			depthStencil: {
-				depthWriteEnabled: false,
-				depthCompare: "equal",
-				format: "depth32float",
-			},
-			multisample: {
-				count: 4,
-			},
-		});
-		const postFXPipeline = this.device.createRenderPipeline({
-			label: "post processing pipeline",
-			layout: "auto",
-			vertex: {
-				module: this.shaders.postFX,
-				entryPoint: "vs",
-				buffers: [
-					{
-						arrayStride: 8,
-						stepMode: "vertex",
-						attributes: [
-							{
-								shaderLocation: 0,
-								offset: 0,
-								format: "float32x2",
-							},
-						],
-					},
-				],
-			},
-			fragment: {
-				module: this.shaders.postFX,
-				entryPoint: "fs",
-				targets: [{ format: this.presentationFormat }],
-				constants: {
-					...POSTFX_SETTINGS,
+				fragment: {
+					module: this.shaders.shadows,
+					entryPoint: "fs",
+					targets: [],
 				},
-			},
-			primitive: {
-				topology: "triangle-strip",
-				cullMode: "back",
-			},
-			multisample: {
-				count: 4,
+				primitive: {
+					topology: "triangle-list",
+					cullMode: "back",
+				},
+				depthStencil: {
+					depthBias: 0.05,
+					depthBiasSlopeScale: 2.0,
+					depthWriteEnabled: true,
+					depthCompare: "less",
+					format: "depth32float",
+				},
+			}),
+		);
+
+		const PBRRenderPipelines = this.PBRPipelineDescriptors().map((descriptor) =>
+			this.device.createRenderPipeline(descriptor),
+		);
+		const postFXPipeline = this.device.createRenderPipeline(this.postFXPipelineDescriptor());
+		const ssaoComputePipeline = this.device.createComputePipeline(this.ssaoPipelineDescriptor());
+		const [ssaoBlurXComputePipeline, ssaoBlurYComputePipeline] = this.ssaoBlurPipelineDescriptors().map(
+			(descriptor) => this.device.createComputePipeline(descriptor),
+		);
+		const [bloomPrefilterPipeline, bloomDownsamplePipeline, bloomUpsamplePipeline] =
+			this.bloomPipelineDescriptors().map((descriptor) => this.device.createComputePipeline(descriptor));
+		const ssaoUpscalePipeline = this.device.createComputePipeline({
+			label: "ssao upscale compute pipeline",
+			layout: "auto",
+			compute: {
+				module: this.shaders.ssaoUpscale,
+				entryPoint: "compute_ssao_upscale",
 			},
 		});
-		const ssaoPipelineLayout = this.device.createPipelineLayout({
-			label: "ssao compute pipeline layout",
+		const lightClustersPipelineLayout = this.device.createPipelineLayout({
+			label: "light clusters compute pipeline layout",
 			bindGroupLayouts: [
-				this.globalUniformBindGroupLayouts.ssao,
-				this.globalUniformBindGroupLayouts.scene,
 				this.globalUniformBindGroupLayouts.camera,
+				this.globalUniformBindGroupLayouts.lightClusters,
 			],
 		});
-		const ssaoComputePipeline = this.device.createComputePipeline({
-			label: "irradiance map generator compute pipeline",
-			layout: ssaoPipelineLayout,
-			compute: {
-				module: this.shaders.ssao,
-				entryPoint: "compute_ssao",
-				constants: {
-					ssao_samples: SSAO_SETTINGS.sampleCount,
-					ssao_radius: SSAO_SETTINGS.radius,
-					ssao_bias: SSAO_SETTINGS.bias,
-					ssao_noise_scale: SSAO_SETTINGS.noiseScale,
-					ssao_fade_start: SSAO_SETTINGS.fadeStart,
-					ssao_fade_end: SSAO_SETTINGS.fadeEnd,
-				},
-			},
-		});
-		const ssaoBlurXComputePipeline = this.device.createComputePipeline({
-			label: "ssao horizontal blur compute pipeline",
-			layout: "auto",
+		const lightClustersPipeline = this.device.createComputePipeline({
+			label: "light clusters compute pipeline",
+			layout: lightClustersPipelineLayout,
 			compute: {
-				module: this.shaders.ssaoBlur,
-				entryPoint: "compute_ssao_blur",
+				module: this.shaders.lightClusters,
+				entryPoint: "compute_clusters",
 				constants: {
-					kernel_size: SSAO_SETTINGS.blurKernelSize,
-					blur_x: 1.0,
-					blur_y: 0.0,
+					max_cluster_lights: LIGHT_SETTINGS.maxClusterLights,
 				},
 			},
 		});
-		const ssaoBlurYComputePipeline = this.device.createComputePipeline({
-			label: "ssao vertical blur compute pipeline",
-			layout: "auto",
-			compute: {
-				module: this.shaders.ssaoBlur,
-				entryPoint: "compute_ssao_blur",
-				constants: {
-					kernel_size: SSAO_SETTINGS.blurKernelSize,
-					blur_x: 0.0,
-					blur_y: 1.0,
-				},
-			},
-		});
-		const ssaoUpscalePipeline = this.device.createComputePipeline({
-			label: "ssao upscale compute pipeline",
-			layout: "auto",
-			compute: {
-				module: this.shaders.ssaoUpscale,
-				entryPoint: "compute_ssao_upscale",
-			},
-		});
 		this.pipelines = {
-			depth: depthPrepassRenderPipeline,
-			shadows: shadowDepthRenderPipeline,
-			PBR: PBRRenderPipeline,
+			depth: depthPrepassRenderPipelines,
+			shadows: shadowDepthRenderPipelines,
+			PBR: PBRRenderPipelines,
 			postFX: postFXPipeline,
 			ssao: ssaoComputePipeline,
 			ssaoBlurX: ssaoBlurXComputePipeline,
 			ssaoBlurY: ssaoBlurYComputePipeline,
 			ssaoUpscale: ssaoUpscalePipeline,
+			bloomPrefilter: bloomPrefilterPipeline,
+			bloomDownsample: bloomDownsamplePipeline,
+			bloomUpsample: bloomUpsamplePipeline,
+			lightClusters: lightClustersPipeline,
 		};
 
 		const cascadeBufferSizeBytes = 256;
@@ -656,11 +714,19 @@ export default class Renderer {
 				size: SHADOW_SETTINGS.cascades.length * cascadeBufferSizeBytes,
 				usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
 			}),
+			clusters: this.device.createBuffer({
+				label: "light clusters uniform buffer",
+				size: 8 * 4,
+				usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+			}),
 		};
 		this.uniformBufferData = {
 			camera: new Float32Array(this.uniformBuffers.camera.size / 4),
 			shadows: new Float32Array(this.uniformBuffers.shadows.size / 4),
+			clusters: new Uint32Array(this.uniformBuffers.clusters.size / 4),
 		};
+		this.uniformBufferData.clusters.set(LIGHT_SETTINGS.clusterSize, 0);
+		new Float32Array(this.uniformBufferData.clusters.buffer, 4 * 4, 2).set([this.camera.near, this.camera.far]);
 
 		const cameraBindGroup = this.device.createBindGroup({
 			layout: this.globalUniformBindGroupLayouts.camera,
@@ -710,65 +776,21 @@ export default class Renderer {
 			);
 		}
 
-		// ssao blur kernel bind group
-		const kernelData = [];
-		const kernelOffsets = [];
-		const sigma = 8.0;
-		let intensity = 0;
-		for (let i = -SSAO_SETTINGS.blurKernelSize; i <= SSAO_SETTINGS.blurKernelSize; i++) {
-			const gaussian =
-				(1.0 / Math.sqrt(2.0 * Math.PI * sigma * sigma)) * Math.exp(-(i * i) / (2.0 * sigma * sigma));
-
-			intensity += gaussian;
-			kernelData.push(gaussian);
-			kernelOffsets.push(i);
-		}
-		const interpKernelData = [];
-		const interpKernelOffsets = [];
-		let i = 0;
-		while (i + 1 < kernelData.length) {
-			const texA = kernelData[i];
-			const texB = kernelData[i + 1];
-			const alpha = texA / (texA + texB);
-			interpKernelData.push((texA + texB) / intensity);
-			interpKernelOffsets.push(alpha + kernelOffsets[i]);
-			i += 2;
-		}
-		if (i < kernelData.length) {
-			interpKernelData.push(kernelData[i] / intensity);
-			interpKernelOffsets.push(kernelOffsets[i]);
-		}
-		const kernelBuffer = this.device.createBuffer({
-			label: "ssao blur kernel buffer",
-			size: (interpKernelData.length * 2) * 4,
-			usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
-			mappedAtCreation: true,
-		});
-		const kernelBufferData = new Float32Array(kernelBuffer.getMappedRange());
-		for (let i = 0; i < interpKernelData.length; i++) {
-			kernelBufferData[i * 2] = interpKernelData[i];
-			kernelBufferData[i * 2 + 1] = interpKernelOffsets[i];
-		}
-		kernelBuffer.unmap();
-		const ssaoBlurXKernelBindGroup = this.device.createBindGroup({
-			layout: ssaoBlurXComputePipeline.getBindGroupLayout(1),
+		const lightClustersBindGroup = this.device.createBindGroup({
+			label: "light clusters bind group",
+			layout: this.globalUniformBindGroupLayouts.lightClusters,
 			entries: [
 				{
 					binding: 0,
-					resource: {
-						buffer: kernelBuffer,
-					},
+					resource: { buffer: this.lights.buffer },
 				},
-			],
-		});
-		const ssaoBlurYKernelBindGroup = this.device.createBindGroup({
-			layout: ssaoBlurYComputePipeline.getBindGroupLayout(1),
-			entries: [
 				{
-					binding: 0,
-					resource: {
-						buffer: kernelBuffer,
-					},
+					binding: 1,
+					resource: { buffer: this.clusterLightsBuffer },
+				},
+				{
+					binding: 2,
+					resource: { buffer: this.uniformBuffers.clusters },
 				},
 			],
 		});
@@ -776,8 +798,10 @@ export default class Renderer {
 		this.globalUniformBindGroups = {
 			camera: cameraBindGroup,
 			shadows: shadowBindGroups,
-			ssaoBlurKernelX: ssaoBlurXKernelBindGroup,
-			ssaoBlurKernelY: ssaoBlurYKernelBindGroup,
+			lightClusters: lightClustersBindGroup,
+			// depend on the ssao blur pipelines, and are created in buildSSAOBlurKernel
+			ssaoBlurKernelX: null,
+			ssaoBlurKernelY: null,
 			// depend on the lighting load state, and is created in onLightingLoad
 			scene: null,
 			// depend on the screen size, and are created in buildScreenRenderDescriptors
@@ -786,6 +810,8 @@ export default class Renderer {
 			ssaoBlurX: null,
 			ssaoBlurY: null,
 			ssaoUpscale: null,
+			bloomDownsample: [],
+			bloomUpsample: [],
 			drawTexture: null,
 		};
 
@@ -836,6 +862,7 @@ export default class Renderer {
 				depthStencilAttachment: undefined,
 			});
 		}
+		this.buildSSAOBlurKernel();
 		// create the shadow mapping textures and pass descriptor
 		this.buildShadowRenderDescriptor();
 		// create the output textures and render pass descriptor
@@ -854,6 +881,12 @@ export default class Renderer {
 			ssaoUpscale: {
 				label: "SSAO Upscale Pass",
 			},
+			bloom: {
+				label: "Bloom Pass",
+			},
+			lightClusters: {
+				label: "Light Cluster Pass",
+			},
 		};
 
 		if (context.timestampQuery) {
@@ -862,16 +895,254 @@ export default class Renderer {
 			this.timestampData = null;
 		}
 
-		loadBOBJ(this.device, "/city.bobj").then((data) => {
-			const model = new Model(this.device, this.camera, transformBindGroupLayout, data);
-			model.transform.rotation[1] = Math.PI;
-			model.metallic = 1.0;
-			model.roughness = 0.0;
+		this.assets.model("city").then((data) => {
+			const model = this.createModel(data);
+			this.assets.release(data);
+			quat.fromEuler(0, Math.PI, 0, "xyz", model.transform.rotation);
 			model.update(this.device, this.camera);
 			this.objects.push(model);
 		});
 	}
 
+	/**
+	 * Creates a model instance that may be drawn by this renderer once added with addObject.
+	 * The instance holds a reference to the model data until it's destroyed with destroyModel.
+	 */
+	public createModel(data: ModelData): Model {
+		this.assets.retain(data);
+		return new Model(this.device, this.camera, this.transformBindGroupLayout, data, this.materialDefaults);
+	}
+
+	/**
+	 * Removes the model instance and releases its resources, along with its reference to the model data
+	 */
+	public destroyModel(model: Model) {
+		this.removeObject(model);
+		model.destroy();
+		this.assets.release(model.modelData);
+	}
+
+	/**
+	 * Exports the skybox and sky lighting maps, to be served at SKY_SETTINGS.bakedSource
+	 * @throws Error if the maps aren't loaded yet
+	 */
+	public exportSkyBake(): Promise<ArrayBuffer> {
+		return this.sky.exportBake(this, this.device, this.shaders);
+	}
+
+	public addObject(model: Model) {
+		if (!this.objects.includes(model)) {
+			this.objects.push(model);
+		}
+	}
+
+	public removeObject(model: Model) {
+		const index = this.objects.indexOf(model);
+		if (index >= 0) {
+			this.objects.splice(index, 1);
+		}
+	}
+
+	/**
+	 * Writes the model's transform to its uniform buffer
+	 */
+	public updateModel(model: Model) {
+		model.update(this.device, this.camera);
+	}
+
+	/**
+	 * The pbr model pipelines, indexed by VertexLayout
+	 */
+	private PBRPipelineDescriptors(): GPURenderPipelineDescriptor[] {
+		const PBRPipelineLayout = this.device.createPipelineLayout({
+			label: "PBR render pipeline layout",
+			bindGroupLayouts: [
+				this.globalUniformBindGroupLayouts.camera,
+				this.transformBindGroupLayout,
+				this.globalUniformBindGroupLayouts.depth,
+				this.globalUniformBindGroupLayouts.scene,
+			],
+		});
+		return VERTEX_LAYOUTS.map((layout) => ({
+			label: `render pipeline ${VertexLayout[layout]}`,
+			layout: PBRPipelineLayout,
+			vertex: {
+				module: this.shaders.PBR,
+				// models with tangents get a vertex stage that passes them on for normal mapping
+				entryPoint: layout === VertexLayout.Tangent ? "vs_tangent" : "vs",
+				buffers: [modelVertexBufferLayout(layout, false)],
+			},
+			fragment: {
+				module: this.shaders.PBR,
+				entryPoint: "fs",
+				targets: [{ format: "rgba16float" }],
+				constants: {
+					near: this.camera.near,
+					// far: this.camera.far,
+					debug_cascades: SHADOW_SETTINGS.debugCascades ? 1 : 0,
+					shadow_fade_distance: SHADOW_SETTINGS.fadeDistance,
+					fog_start: SKY_SETTINGS.fogStart,
+					fog_end: SKY_SETTINGS.fogEnd,
+					fog_mip_level: SKY_SETTINGS.fogMipLevel,
+					max_cluster_lights: LIGHT_SETTINGS.maxClusterLights,
+				},
+			},
+			primitive: {
+				topology: "triangle-list",
+				cullMode: "back",
+			},
+			depthStencil: {
+				depthWriteEnabled: false,
+				depthCompare: "equal",
+				format: "depth32float",
+			},
+			multisample: {
+				count: 4,
+			},
+		}));
+	}
+
+	private postFXPipelineDescriptor(): GPURenderPipelineDescriptor {
+		return {
+			label: "post processing pipeline",
+			layout: "auto",
+			vertex: {
+				module: this.shaders.postFX,
+				entryPoint: "vs",
+				buffers: [
+					{
+						arrayStride: 8,
+						stepMode: "vertex",
+						attributes: [
+							{
+								shaderLocation: 0,
+								offset: 0,
+								format: "float32x2",
+							},
+						],
+					},
+				],
+			},
+			fragment: {
+				module: this.shaders.postFX,
+				entryPoint: "fs",
+				targets: [{ format: this.presentationFormat }],
+				constants: {
+					exposure: POSTFX_SETTINGS.exposure,
+					temperature: POSTFX_SETTINGS.temperature,
+					tint: POSTFX_SETTINGS.tint,
+					contrast: POSTFX_SETTINGS.contrast,
+					brightness: POSTFX_SETTINGS.brightness,
+					gamma: POSTFX_SETTINGS.gamma,
+					bloom_intensity: POSTFX_SETTINGS.bloomIntensity,
+				},
+			},
+			primitive: {
+				topology: "triangle-strip",
+				cullMode: "back",
+			},
+			multisample: {
+				count: 4,
+			},
+		};
+	}
+
+	private ssaoPipelineDescriptor(): GPUComputePipelineDescriptor {
+		const ssaoPipelineLayout = this.device.createPipelineLayout({
+			label: "ssao compute pipeline layout",
+			bindGroupLayouts: [
+				this.globalUniformBindGroupLayouts.ssao,
+				this.globalUniformBindGroupLayouts.scene,
+				this.globalUniformBindGroupLayouts.camera,
+			],
+		});
+		return {
+			label: "irradiance map generator compute pipeline",
+			layout: ssaoPipelineLayout,
+			compute: {
+				module: this.shaders.ssao,
+				entryPoint: "compute_ssao",
+				constants: {
+					ssao_samples: SSAO_SETTINGS.sampleCount,
+					ssao_radius: SSAO_SETTINGS.radius,
+					ssao_bias: SSAO_SETTINGS.bias,
+					ssao_noise_scale: SSAO_SETTINGS.noiseScale,
+					ssao_fade_start: SSAO_SETTINGS.fadeStart,
+					ssao_fade_end: SSAO_SETTINGS.fadeEnd,
+				},
+			},
+		};
+	}
+
+	/**
+	 * The bloom prefilter, downsample and upsample pipelines
+	 */
+	private bloomPipelineDescriptors(): GPUComputePipelineDescriptor[] {
+		return [
+			{
+				label: "bloom prefilter compute pipeline",
+				layout: "auto",
+				compute: {
+					module: this.shaders.bloom,
+					entryPoint: "compute_prefilter",
+					constants: {
+						threshold: POSTFX_SETTINGS.bloomThreshold,
+					},
+				},
+			},
+			{
+				label: "bloom downsample compute pipeline",
+				layout: "auto",
+				compute: {
+					module: this.shaders.bloom,
+					entryPoint: "compute_downsample",
+				},
+			},
+			{
+				label: "bloom upsample compute pipeline",
+				layout: "auto",
+				compute: {
+					module: this.shaders.bloom,
+					entryPoint: "compute_upsample",
+				},
+			},
+		];
+	}
+
+	/**
+	 * The horizontal and vertical ssao blur pipelines
+	 */
+	private ssaoBlurPipelineDescriptors(): GPUComputePipelineDescriptor[] {
+		return [
+			{
+				label: "ssao horizontal blur compute pipeline",
+				layout: "auto",
+				compute: {
+					module: this.shaders.ssaoBlur,
+					entryPoint: "compute_ssao_blur",
+					constants: {
+						kernel_size: SSAO_SETTINGS.blurKernelSize,
+						blur_x: 1.0,
+						blur_y: 0.0,
+					},
+				},
+			},
+			{
+				label: "ssao vertical blur compute pipeline",
+				layout: "auto",
+				compute: {
+					module: this.shaders.ssaoBlur,
+					entryPoint: "compute_ssao_blur",
+					constants: {
+						kernel_size: SSAO_SETTINGS.blurKernelSize,
+						blur_x: 0.0,
+						blur_y: 1.0,
+					},
+				},
+			},
+		];
+	}
+
 	private buildDebugBuffers() {
 		const passes = [];
 		for (const descriptor of [
@@ -889,34 +1160,101 @@ export default class Renderer {
 				passes.push(descriptor);
 			}
 		}
-
-		const querySet = this.device.createQuerySet({
-			type: "timestamp",
-			count: 2 * passes.length,
+
+		const querySet = this.device.createQuerySet({
+			type: "timestamp",
+			count: 2 * passes.length,
+		});
+		const resolveBuffer = this.device.createBuffer({
+			size: querySet.count * 8,
+			usage: GPUBufferUsage.QUERY_RESOLVE | GPUBufferUsage.COPY_SRC,
+		});
+		const resultBuffer = this.device.createBuffer({
+			size: resolveBuffer.size,
+			usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
+		});
+		this.timestampData = {
+			querySet: querySet,
+			resolveBuffer: resolveBuffer,
+			resultBuffer: resultBuffer,
+			debugPasses: passes,
+			data: { ...Object.fromEntries(passes.map((desc, i) => [desc.label, 0])) },
+		};
+
+		for (let i = 0; i < passes.length; i++) {
+			passes[i].timestampWrites = {
+				querySet: querySet,
+				beginningOfPassWriteIndex: i * 2,
+				endOfPassWriteIndex: i * 2 + 1,
+			};
+		}
+	}
+
+	/**
+	 * Called upon initialization and change of the ssao blur kernel size
+	 */
+	private buildSSAOBlurKernel() {
+		const kernelData = [];
+		const kernelOffsets = [];
+		const sigma = 8.0;
+		let intensity = 0;
+		for (let i = -SSAO_SETTINGS.blurKernelSize; i <= SSAO_SETTINGS.blurKernelSize; i++) {
+			const gaussian =
+				(1.0 / Math.sqrt(2.0 * Math.PI * sigma * sigma)) * Math.exp(-(i * i) / (2.0 * sigma * sigma));
+
+			intensity += gaussian;
+			kernelData.push(gaussian);
+			kernelOffsets.push(i);
+		}
+		const interpKernelData = [];
+		const interpKernelOffsets = [];
+		let i = 0;
+		while (i + 1 < kernelData.length) {
+			const texA = kernelData[i];
+			const texB = kernelData[i + 1];
+			const alpha = texA / (texA + texB);
+			interpKernelData.push((texA + texB) / intensity);
+			interpKernelOffsets.push(alpha + kernelOffsets[i]);
+			i += 2;
+		}
+		if (i < kernelData.length) {
+			interpKernelData.push(kernelData[i] / intensity);
+			interpKernelOffsets.push(kernelOffsets[i]);
+		}
+		const kernelBuffer = this.device.createBuffer({
+			label: "ssao blur kernel buffer",
+			size: (interpKernelData.length * 2) * 4,
+			usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+			mappedAtCreation: true,
 		});
-		const resolveBuffer = this.device.createBuffer({
-			size: querySet.count * 8,
-			usage: GPUBufferUsage.QUERY_RESOLVE | GPUBufferUsage.COPY_SRC,
+		const kernelBufferData = new Float32Array(kernelBuffer.getMappedRange());
+		for (let i = 0; i < interpKernelData.length; i++) {
+			kernelBufferData[i * 2] = interpKernelData[i];
+			kernelBufferData[i * 2 + 1] = interpKernelOffsets[i];
+		}
+		kernelBuffer.unmap();
+		this.globalUniformBindGroups.ssaoBlurKernelX = this.device.createBindGroup({
+			layout: this.pipelines.ssaoBlurX.getBindGroupLayout(1),
+			entries: [
+				{
+					binding: 0,
+					resource: {
+						buffer: kernelBuffer,
+					},
+				},
+			],
 		});
-		const resultBuffer = this.device.createBuffer({
-			size: resolveBuffer.size,
-			usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
+		this.globalUniformBindGroups.ssaoBlurKernelY = this.device.createBindGroup({
+			layout: this.pipelines.ssaoBlurY.getBindGroupLayout(1),
+			entries: [
+				{
+					binding: 0,
+					resource: {
+						buffer: kernelBuffer,
+					},
+				},
+			],
 		});
-		this.timestampData = {
-			querySet: querySet,
-			resolveBuffer: resolveBuffer,
-			resultBuffer: resultBuffer,
-			debugPasses: passes,
-			data: { ...Object.fromEntries(passes.map((desc, i) => [desc.label, 0])) },
-		};
-
-		for (let i = 0; i < passes.length; i++) {
-			passes[i].timestampWrites = {
-				querySet: querySet,
-				beginningOfPassWriteIndex: i * 2,
-				endOfPassWriteIndex: i * 2 + 1,
-			};
-		}
 	}
 
 	/**
@@ -926,11 +1264,15 @@ export default class Renderer {
 		if (!this.shadowData.texture) {
 			return;
 		}
+		// the scene is drawn at the render resolution, only the post processing output is at the canvas size
+		const scale = RESOLUTION_SETTINGS.renderScale * this.dynamicResolution.scale;
+		const width = Math.max(1, Math.round(this.canvas.width * scale));
+		const height = Math.max(1, Math.round(this.canvas.height * scale));
 
 		// output depth texture
 		const depthTexture = this.device.createTexture({
 			label: "scene depth texture",
-			size: [this.canvas.width, this.canvas.height],
+			size: [width, height],
 			sampleCount: 4,
 			format: "depth32float",
 			usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
@@ -938,7 +1280,7 @@ export default class Renderer {
 
 		const normalTexture = this.device.createTexture({
 			label: "depth pass view normal texture",
-			size: [this.canvas.width, this.canvas.height],
+			size: [width, height],
 			sampleCount: 4,
 			format: "rgba16float",
 			usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
@@ -947,7 +1289,7 @@ export default class Renderer {
 		// scene draw color texture
 		const sceneDrawTexture = this.device.createTexture({
 			label: "scene draw texture",
-			size: [this.canvas.width, this.canvas.height],
+			size: [width, height],
 			sampleCount: 4,
 			format: "rgba16float",
 			usage: GPUTextureUsage.RENDER_ATTACHMENT,
@@ -957,7 +1299,7 @@ export default class Renderer {
 		// resolve texture for post-processing output
 		const sceneResolveTexture = this.device.createTexture({
 			label: "scene single-sample resolve texture",
-			size: [this.canvas.width, this.canvas.height],
+			size: [width, height],
 			sampleCount: 1,
 			format: "rgba16float",
 			usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.RENDER_ATTACHMENT,
@@ -965,7 +1307,7 @@ export default class Renderer {
 		const sceneResolveView = sceneResolveTexture.createView();
 
 		// ssao output texture
-		const ssaoResolution = [Math.ceil(this.canvas.width / 2), Math.ceil(this.canvas.height / 2)];
+		const ssaoResolution = [Math.ceil(width / 2), Math.ceil(height / 2)];
 		const ssaoTexture = this.device.createTexture({
 			label: "ssao texture",
 			size: ssaoResolution,
@@ -988,12 +1330,34 @@ export default class Renderer {
 		// resolve texture for ssao output
 		const ssaoUpscaleTexture = this.device.createTexture({
 			label: "ssao upscale texture",
-			size: [this.canvas.width, this.canvas.height],
+			size: [width, height],
 			sampleCount: 1,
 			format: "rgba16float",
 			usage: GPUTextureUsage.STORAGE_BINDING | GPUTextureUsage.TEXTURE_BINDING,
 		});
 
+		// bloom chain, starting at half the render resolution. Each level needs to be at least 1x1, and two are needed
+		// to upsample at all.
+		const bloomSize = [Math.max(2, Math.ceil(width / 2)), Math.max(2, Math.ceil(height / 2))];
+		const bloomMipLevels = Math.max(
+			2,
+			Math.min(POSTFX_SETTINGS.bloomMipLevels, Math.floor(Math.log2(Math.min(bloomSize[0], bloomSize[1]))) + 1),
+		);
+		const bloomDownTexture = this.device.createTexture({
+			label: "bloom downsample texture",
+			size: bloomSize,
+			mipLevelCount: bloomMipLevels,
+			format: "rgba16float",
+			usage: GPUTextureUsage.STORAGE_BINDING | GPUTextureUsage.TEXTURE_BINDING,
+		});
+		const bloomUpTexture = this.device.createTexture({
+			label: "bloom upsample texture",
+			size: bloomSize,
+			mipLevelCount: bloomMipLevels - 1,
+			format: "rgba16float",
+			usage: GPUTextureUsage.STORAGE_BINDING | GPUTextureUsage.TEXTURE_BINDING,
+		});
+
 		// screen postfx ouptut color texture
 		const screenOutputTexture = this.device.createTexture({
 			label: "post fx screen output texture",
@@ -1009,9 +1373,94 @@ export default class Renderer {
 			usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
 			mappedAtCreation: true,
 		});
-		new Float32Array(depthUniformScreenSizeBuffer.getMappedRange()).set([this.canvas.width, this.canvas.height]);
+		new Float32Array(depthUniformScreenSizeBuffer.getMappedRange()).set([width, height]);
 		depthUniformScreenSizeBuffer.unmap();
 
+		// work already submitted with the previous textures still completes
+		if (this.screenData) {
+			this.screenData.depthTexture.destroy();
+			this.screenData.normalTexture.destroy();
+			this.screenData.sceneDrawTexture.destroy();
+			this.screenData.sceneResolveTexture.destroy();
+			this.screenData.ssaoTexture.destroy();
+			this.screenData.ssaoBlurXTexture.destroy();
+			this.screenData.ssaoUpscaleTexture.destroy();
+			this.screenData.bloomDownTexture.destroy();
+			this.screenData.bloomUpTexture.destroy();
+			this.screenData.screenOutputTexture.destroy();
+			this.screenData.screenSizeBuffer.destroy();
+		}
+		this.screenData = {
+			width: width,
+			height: height,
+			depthTexture: depthTexture,
+			normalTexture: normalTexture,
+			sceneDrawTexture: sceneDrawTexture,
+			sceneResolveTexture: sceneResolveTexture,
+			ssaoTexture: ssaoTexture,
+			ssaoBlurXTexture: ssaoBlurXTexture,
+			ssaoUpscaleTexture: ssaoUpscaleTexture,
+			bloomDownTexture: bloomDownTexture,
+			bloomUpTexture: bloomUpTexture,
+			screenOutputTexture: screenOutputTexture,
+			screenSizeBuffer: depthUniformScreenSizeBuffer,
+		};
+		this.buildScreenBindGroups();
+
+		// update render pass descriptor textures
+		(this.renderPassDescriptors.depthPass as any).depthStencilAttachment = {
+			view: depthTexture.createView({
+				usage: GPUTextureUsage.RENDER_ATTACHMENT,
+			}),
+			depthClearValue: 1.0,
+			depthLoadOp: "clear",
+			depthStoreOp: "store",
+		};
+		(this.renderPassDescriptors.depthPass as any).colorAttachments = [
+			{
+				clearValue: [0.0, 0.0, 0.0, 1.0],
+				loadOp: "clear",
+				storeOp: "store",
+				view: normalTexture.createView(),
+			},
+		];
+
+		(this.renderPassDescriptors.sceneDraw as any).colorAttachments = [
+			{
+				clearValue: [0.0, 0.0, 0.0, 1.0],
+				loadOp: "clear",
+				storeOp: "store",
+				view: sceneDrawView,
+				resolveTarget: sceneResolveView,
+			},
+		];
+		(this.renderPassDescriptors.sceneDraw as any).depthStencilAttachment = {
+			view: depthTexture.createView({
+				usage: GPUTextureUsage.RENDER_ATTACHMENT,
+			}),
+			depthReadOnly: true,
+		};
+
+		(this.renderPassDescriptors.postFX as any).colorAttachments = [
+			{
+				clearValue: [0.0, 0.0, 0.0, 1.0],
+				loadOp: "clear",
+				storeOp: "store",
+				view: screenOutputView,
+				resolveTarget: this.ctx.getCurrentTexture().createView(),
+			},
+		];
+	}
+
+	/**
+	 * Called when the screen textures or the pipelines whose layouts the bind groups use are rebuilt
+	 */
+	private buildScreenBindGroups() {
+		const shadowTexture = this.shadowData.texture;
+		if (!this.screenData || !shadowTexture) {
+			return;
+		}
+
 		// bind group for the depth texture
 		this.globalUniformBindGroups.depth = this.device.createBindGroup({
 			label: "depth texture bind group",
@@ -1028,21 +1477,21 @@ export default class Renderer {
 				},
 				{
 					binding: 1,
-					resource: this.shadowData.texture.createView({
+					resource: shadowTexture.createView({
 						dimension: "2d-array",
 					}),
 				},
 				{
 					binding: 2,
 					resource: {
-						buffer: depthUniformScreenSizeBuffer,
+						buffer: this.screenData.screenSizeBuffer,
 						offset: 0,
 						size: 2 * 4,
 					},
 				},
 				{
 					binding: 3,
-					resource: ssaoUpscaleTexture.createView(),
+					resource: this.screenData.ssaoUpscaleTexture.createView(),
 				},
 			],
 		});
@@ -1058,27 +1507,93 @@ export default class Renderer {
 				},
 				{
 					binding: 1,
-					resource: sceneResolveView,
-					// resource: ssaoUpscaleTexture.createView(),
+					resource: this.screenData.sceneResolveTexture.createView(),
+					// resource: this.screenData.ssaoUpscaleTexture.createView(),
+				},
+				{
+					binding: 2,
+					resource: this.screenData.bloomUpTexture.createView({ baseMipLevel: 0, mipLevelCount: 1 }),
 				},
 			],
 		});
 
+		// bloom chain, each pass reads the level before it and writes the next
+		const { bloomDownTexture, bloomUpTexture } = this.screenData;
+		const bloomLevel = (texture: GPUTexture, level: number) =>
+			texture.createView({ baseMipLevel: level, mipLevelCount: 1 });
+		this.globalUniformBindGroups.bloomDownsample = [];
+		for (let level = 0; level < bloomDownTexture.mipLevelCount; level++) {
+			const pipeline = level === 0 ? this.pipelines.bloomPrefilter : this.pipelines.bloomDownsample;
+			this.globalUniformBindGroups.bloomDownsample.push(
+				this.device.createBindGroup({
+					label: `bloom downsample bind group ${level}`,
+					layout: pipeline.getBindGroupLayout(0),
+					entries: [
+						{
+							binding: 0,
+							resource: this.postFXQuad.sampler,
+						},
+						{
+							binding: 1,
+							resource:
+								level === 0
+									? this.screenData.sceneResolveTexture.createView()
+									: bloomLevel(bloomDownTexture, level - 1),
+						},
+						{
+							binding: 2,
+							resource: bloomLevel(bloomDownTexture, level),
+						},
+					],
+				}),
+			);
+		}
+		this.globalUniformBindGroups.bloomUpsample = [];
+		for (let level = bloomUpTexture.mipLevelCount - 1; level >= 0; level--) {
+			const smallest = level === bloomUpTexture.mipLevelCount - 1;
+			this.globalUniformBindGroups.bloomUpsample.push(
+				this.device.createBindGroup({
+					label: `bloom upsample bind group ${level}`,
+					layout: this.pipelines.bloomUpsample.getBindGroupLayout(0),
+					entries: [
+						{
+							binding: 0,
+							resource: this.postFXQuad.sampler,
+						},
+						{
+							binding: 1,
+							resource: smallest
+								? bloomLevel(bloomDownTexture, level + 1)
+								: bloomLevel(bloomUpTexture, level + 1),
+						},
+						{
+							binding: 2,
+							resource: bloomLevel(bloomUpTexture, level),
+						},
+						{
+							binding: 3,
+							resource: bloomLevel(bloomDownTexture, level),
+						},
+					],
+				}),
+			);
+		}
+
 		this.globalUniformBindGroups.ssao = this.device.createBindGroup({
 			label: "ssao bind group",
 			layout: this.pipelines.ssao.getBindGroupLayout(0),
 			entries: [
 				{
 					binding: 0,
-					resource: depthTexture.createView(),
+					resource: this.screenData.depthTexture.createView(),
 				},
 				{
 					binding: 1,
-					resource: normalTexture.createView(),
+					resource: this.screenData.normalTexture.createView(),
 				},
 				{
 					binding: 2,
-					resource: ssaoTexture.createView(),
+					resource: this.screenData.ssaoTexture.createView(),
 				},
 			],
 		});
@@ -1096,7 +1611,7 @@ export default class Renderer {
 			entries: [
 				{
 					binding: 0,
-					resource: ssaoTexture.createView(),
+					resource: this.screenData.ssaoTexture.createView(),
 				},
 				{
 					binding: 1,
@@ -1104,7 +1619,7 @@ export default class Renderer {
 				},
 				{
 					binding: 2,
-					resource: ssaoBlurXTexture.createView(),
+					resource: this.screenData.ssaoBlurXTexture.createView(),
 				},
 			],
 		});
@@ -1115,7 +1630,7 @@ export default class Renderer {
 			entries: [
 				{
 					binding: 0,
-					resource: ssaoBlurXTexture.createView(),
+					resource: this.screenData.ssaoBlurXTexture.createView(),
 				},
 				{
 					binding: 1,
@@ -1123,7 +1638,7 @@ export default class Renderer {
 				},
 				{
 					binding: 2,
-					resource: ssaoTexture.createView(),
+					resource: this.screenData.ssaoTexture.createView(),
 				},
 			],
 		});
@@ -1134,7 +1649,7 @@ export default class Renderer {
 			entries: [
 				{
 					binding: 0,
-					resource: ssaoTexture.createView(),
+					resource: this.screenData.ssaoTexture.createView(),
 				},
 				{
 					binding: 1,
@@ -1142,54 +1657,10 @@ export default class Renderer {
 				},
 				{
 					binding: 2,
-					resource: ssaoUpscaleTexture.createView(),
+					resource: this.screenData.ssaoUpscaleTexture.createView(),
 				},
 			],
 		});
-
-		// update render pass descriptor textures
-		(this.renderPassDescriptors.depthPass as any).depthStencilAttachment = {
-			view: depthTexture.createView({
-				usage: GPUTextureUsage.RENDER_ATTACHMENT,
-			}),
-			depthClearValue: 1.0,
-			depthLoadOp: "clear",
-			depthStoreOp: "store",
-		};
-		(this.renderPassDescriptors.depthPass as any).colorAttachments = [
-			{
-				clearValue: [0.0, 0.0, 0.0, 1.0],
-				loadOp: "clear",
-				storeOp: "store",
-				view: normalTexture.createView(),
-			},
-		];
-
-		(this.renderPassDescriptors.sceneDraw as any).colorAttachments = [
-			{
-				clearValue: [0.0, 0.0, 0.0, 1.0],
-				loadOp: "clear",
-				storeOp: "store",
-				view: sceneDrawView,
-				resolveTarget: sceneResolveView,
-			},
-		];
-		(this.renderPassDescriptors.sceneDraw as any).depthStencilAttachment = {
-			view: depthTexture.createView({
-				usage: GPUTextureUsage.RENDER_ATTACHMENT,
-			}),
-			depthReadOnly: true,
-		};
-
-		(this.renderPassDescriptors.postFX as any).colorAttachments = [
-			{
-				clearValue: [0.0, 0.0, 0.0, 1.0],
-				loadOp: "clear",
-				storeOp: "store",
-				view: screenOutputView,
-				resolveTarget: this.ctx.getCurrentTexture().createView(),
-			},
-		];
 	}
 
 	/**
@@ -1429,57 +1900,167 @@ export default class Renderer {
 					binding: 10,
 					resource: { buffer: shadowKernelBuffer, offset: 0, size: shadowKernel.byteLength },
 				},
+				{
+					binding: 11,
+					resource: { buffer: this.lights.buffer },
+				},
+				{
+					binding: 12,
+					resource: { buffer: this.clusterLightsBuffer },
+				},
+				{
+					binding: 13,
+					resource: { buffer: this.uniformBuffers.clusters },
+				},
 			],
 		});
 		this.globalUniformBindGroups.scene = sceneBindGroup;
 	}
 
-	public draw(input: Input, deltaTime: number) {
-		// game logic
-		{
-			// rotate camera with mouse delta
-			if (input.pointerLocked) {
-				this.camera.yaw += input.dx * MOUSE_SENSITIVITY;
-				this.camera.pitch = Math.min(
-					Math.PI / 2 - 0.0001,
-					Math.max(-Math.PI / 2 + 0.0001, this.camera.pitch - input.dy * MOUSE_SENSITIVITY),
-				);
-			}
+	/**
+	 * Rebuilds what was built from the changed settings. The pipelines are compiled in the background while the old ones
+	 * keep drawing, then swapped in along with the buffers and bind groups that depend on them.
+	 * @param changed "group.setting" keys, as passed to the RenderSettings listeners
+	 */
+	private async applySettings(changed: ReadonlySet<string>) {
+		const has = (...keys: string[]) => keys.some((key) => changed.has(key));
 
-			// update input vector
-			this.inputVec[0] =
-				(input.keyDown("D") || input.keyDown("d") ? 1 : 0) - (input.keyDown("A") || input.keyDown("a") ? 1 : 0);
-			(this.inputVec[1] =
-				(input.keyDown("W") || input.keyDown("w") ? 1 : 0) -
-				(input.keyDown("S") || input.keyDown("s") ? 1 : 0)),
-				vec2.normalize(this.inputVec, this.inputVec);
-
-			// update acceleration, velocity and position
-			vec3.scale(this.camera.right, -this.inputVec[0], this.accel);
-			vec3.scale(this.camera.forward, this.inputVec[1], this.accelY);
-			vec3.add(this.accel, this.accelY, this.accel);
-
-			this.vel[0] = Math.min(
-				MAX_VEL,
-				Math.max(-MAX_VEL, this.vel[0] + (this.accel[0] - this.vel[0]) * ACCEL * deltaTime),
-			);
-			this.vel[1] = Math.min(
-				MAX_VEL,
-				Math.max(-MAX_VEL, this.vel[1] + (this.accel[1] - this.vel[1]) * ACCEL * deltaTime),
-			);
-			this.vel[2] = Math.min(
-				MAX_VEL,
-				Math.max(-MAX_VEL, this.vel[2] + (this.accel[2] - this.vel[2]) * ACCEL * deltaTime),
-			);
+		// settings substituted into shader templates need the shaders reloaded
+		if (has("ssao.sampleCount", "shadows.kernelSize")) {
+			Object.assign(this.shaders, loadTemplatedShaders(this.device));
+		}
+		const rebuildPBR = has(
+			"shadows.kernelSize",
+			"shadows.debugCascades",
+			"shadows.fadeDistance",
+			"sky.fogStart",
+			"sky.fogEnd",
+			"sky.fogMipLevel",
+		);
+		const rebuildSSAO = has(
+			"ssao.sampleCount",
+			"ssao.radius",
+			"ssao.bias",
+			"ssao.noiseScale",
+			"ssao.fadeStart",
+			"ssao.fadeEnd",
+		);
+		const rebuildSSAOBlur = has("ssao.blurKernelSize");
+		const rebuildPostFX = [...changed].some((key) => key.startsWith("postFX."));
+		const rebuildBloom = has("postFX.bloomThreshold");
+		const [PBR, ssao, ssaoBlur, postFX, bloom] = await Promise.all([
+			rebuildPBR
+				? Promise.all(
+						this.PBRPipelineDescriptors().map((descriptor) =>
+							this.device.createRenderPipelineAsync(descriptor),
+						),
+					)
+				: null,
+			rebuildSSAO ? this.device.createComputePipelineAsync(this.ssaoPipelineDescriptor()) : null,
+			rebuildSSAOBlur
+				? Promise.all(
+						this.ssaoBlurPipelineDescriptors().map((descriptor) =>
+							this.device.createComputePipelineAsync(descriptor),
+						),
+					)
+				: null,
+			rebuildPostFX ? this.device.createRenderPipelineAsync(this.postFXPipelineDescriptor()) : null,
+			rebuildBloom
+				? Promise.all(
+						this.bloomPipelineDescriptors().map((descriptor) =>
+							this.device.createComputePipelineAsync(descriptor),
+						),
+					)
+				: null,
+		]);
+
+		if (PBR) {
+			this.pipelines.PBR = PBR;
+		}
+		if (ssao) {
+			this.pipelines.ssao = ssao;
+		}
+		if (ssaoBlur) {
+			[this.pipelines.ssaoBlurX, this.pipelines.ssaoBlurY] = ssaoBlur;
+			this.buildSSAOBlurKernel();
+		}
+		if (postFX) {
+			this.pipelines.postFX = postFX;
+		}
+		if (bloom) {
+			[this.pipelines.bloomPrefilter, this.pipelines.bloomDownsample, this.pipelines.bloomUpsample] = bloom;
+		}
+		if (has("shadows.resolution")) {
+			const previousTexture = this.shadowData.texture;
+			this.buildShadowRenderDescriptor();
+			previousTexture?.destroy();
+		}
+		if (ssao || ssaoBlur || postFX || bloom || has("shadows.resolution")) {
+			this.buildScreenBindGroups();
+		}
+		// the ssao kernel and noise are in the scene bind group
+		if (has("ssao.sampleCount", "ssao.noiseTextureSize")) {
+			this.onLightingLoad();
+		}
+
+		if (has("resolution.renderScale", "postFX.bloomMipLevels")) {
+			this.buildScreenRenderDescriptors();
+		}
+
+		if (has("postFX.gamma", "sky.gammaOffset")) {
+			this.sky.rebuildSkybox(this.device, this.shaders);
+		}
+		// the skybox is always generated from the hdr
+		const sourceChanged = has("sky.skyboxSource", "sky.bakedSource", "sky.skyboxResolution");
+		const generatorChanged = has(
+			"sky.irradianceResolution",
+			"sky.irradianceSampleDelta",
+			"sky.prefilterResolution",
+			"sky.prefilterMipLevels",
+			"sky.prefilterSamples",
+			"sky.brdfResolution",
+			"sky.brdfSamples",
+		);
+		// a bake's lighting maps are loaded as is, so their generator settings only matter without one
+		if (sourceChanged || (generatorChanged && !this.sky.baked)) {
+			this.sky.reload(this, this.device, this.shaders);
+		}
+	}
+
+	/**
+	 * @param alpha interpolation factor between the previous and latest simulation steps
+	 */
+	public draw(input: Input, alpha: number) {
+		// one rebuild at a time, changes made meanwhile wait for the next
+		if (this.changedSettings.size > 0 && !this.settingsRebuild) {
+			const changed = new Set(this.changedSettings);
+			this.changedSettings.clear();
+			this.settingsRebuild = this.applySettings(changed)
+				.catch((err) => console.error("Failed to apply render settings:", err))
+				.finally(() => (this.settingsRebuild = null));
+		}
 
-			vec3.addScaled(this.camera.position, this.vel, 0.01 * deltaTime, this.camera.position);
+		// scale the render resolution to the frame time, preferring gpu time as the time between frames is held to
+		// the refresh interval by vsync
+		const now = performance.now();
+		if (this.lastDrawTime !== null) {
+			const gpuTime = this.timestampData
+				? Object.values(this.timestampData.data).reduce((sum, time) => sum + time, 0) / 1000
+				: null;
+			if (this.dynamicResolution.update(now, gpuTime ?? now - this.lastDrawTime, gpuTime !== null)) {
+				this.buildScreenRenderDescriptors();
+			}
 		}
+		this.lastDrawTime = now;
 
 		// update camera
-		this.camera.update(this.canvas);
+		this.camera.update(this.canvas, alpha);
 
 		// update shadows
-		if (!input.keyDown("c")) {
+		if (input.actionPressed("toggleShadowFreeze")) {
+			this.shadowsFrozen = !this.shadowsFrozen;
+		}
+		if (!this.shadowsFrozen) {
 			this.updateShadows();
 		}
 
@@ -1488,7 +2069,7 @@ export default class Renderer {
 			// update camera buffer
 			this.uniformBufferData.camera.set(this.camera.viewMatrix, 0);
 			this.uniformBufferData.camera.set(this.camera.projMatrix, 16);
-			this.uniformBufferData.camera.set(this.camera.position, 32);
+			this.uniformBufferData.camera.set(this.camera.eye, 32);
 			this.uniformBufferData.camera.set(this.camera.projMatrixInverse, 64);
 			this.device.queue.writeBuffer(
 				this.uniformBuffers.camera,
@@ -1510,6 +2091,22 @@ export default class Renderer {
 			}
 		}
 
+		// upload material changes made since the last frame
+		for (const model of this.objects) {
+			model.updateMaterial(this.device);
+		}
+
+		// upload the lights, binned into clusters before the scene is drawn
+		this.lights.update(this.device);
+		this.uniformBufferData.clusters[3] = this.lights.count;
+		this.device.queue.writeBuffer(
+			this.uniformBuffers.clusters,
+			0,
+			this.uniformBufferData.clusters.buffer,
+			this.uniformBufferData.clusters.byteOffset,
+			this.uniformBufferData.clusters.byteLength,
+		);
+
 		(this.renderPassDescriptors.postFX.colorAttachments as any)[0].resolveTarget = this.ctx
 			.getCurrentTexture()
 			.createView();
@@ -1519,13 +2116,15 @@ export default class Renderer {
 			// shadow pass
 			for (let i = 0; i < SHADOW_SETTINGS.cascades.length; i++) {
 				const shadowPass = encoder.beginRenderPass(this.renderPassDescriptors.shadowPass![i]);
-				shadowPass.setPipeline(this.pipelines.shadows);
 				shadowPass.setBindGroup(0, this.globalUniformBindGroups.shadows![i]);
 				for (const model of this.objects) {
-					shadowPass.setBindGroup(1, model.transformUniformBindGroup);
+					shadowPass.setPipeline(this.pipelines.shadows[model.modelData.vertexLayout]);
 					shadowPass.setVertexBuffer(0, model.modelData.vertexBuffer);
 					shadowPass.setIndexBuffer(model.modelData.indexBuffer, model.modelData.indexFormat);
-					shadowPass.drawIndexed(model.modelData.indexCount);
+					for (const mesh of model.modelData.meshes) {
+						shadowPass.setBindGroup(1, model.bindGroup(mesh));
+						shadowPass.drawIndexed(mesh.indexCount, 1, mesh.firstIndex);
+					}
 				}
 				shadowPass.end();
 			}
@@ -1534,26 +2133,29 @@ export default class Renderer {
 		{
 			// depth prepass
 			const depthPass = encoder.beginRenderPass(this.renderPassDescriptors.depthPass!);
-			depthPass.setPipeline(this.pipelines.depth);
 			depthPass.setBindGroup(0, this.globalUniformBindGroups.camera);
 
 			for (const model of this.objects) {
-				depthPass.setBindGroup(1, model.transformUniformBindGroup);
+				depthPass.setPipeline(this.pipelines.depth[model.modelData.vertexLayout]);
 				depthPass.setVertexBuffer(0, model.modelData.vertexBuffer);
 				depthPass.setIndexBuffer(model.modelData.indexBuffer, model.modelData.indexFormat);
-				depthPass.drawIndexed(model.modelData.indexCount);
+				for (const mesh of model.modelData.meshes) {
+					depthPass.setBindGroup(1, model.bindGroup(mesh));
+					depthPass.drawIndexed(mesh.indexCount, 1, mesh.firstIndex);
+				}
 			}
 			depthPass.end();
 		}
 
-		if (this.globalUniformBindGroups.ssao && this.globalUniformBindGroups.scene) {
+		if (this.screenData && this.globalUniformBindGroups.ssao && this.globalUniformBindGroups.scene) {
+			const { width, height } = this.screenData;
 			// ssao pass
 			const ssaoPass = encoder.beginComputePass(this.computePassDescriptors.ssao);
 			ssaoPass.setPipeline(this.pipelines.ssao);
 			ssaoPass.setBindGroup(0, this.globalUniformBindGroups.ssao);
 			ssaoPass.setBindGroup(1, this.globalUniformBindGroups.scene);
 			ssaoPass.setBindGroup(2, this.globalUniformBindGroups.camera);
-			ssaoPass.dispatchWorkgroups(Math.ceil(this.canvas.width / 16), Math.ceil(this.canvas.height / 16), 1);
+			ssaoPass.dispatchWorkgroups(Math.ceil(width / 16), Math.ceil(height / 16), 1);
 			ssaoPass.end();
 
 			// ssao blur horizontal pass
@@ -1561,37 +2163,54 @@ export default class Renderer {
 			ssaoBlurPass.setPipeline(this.pipelines.ssaoBlurX);
 			ssaoBlurPass.setBindGroup(0, this.globalUniformBindGroups.ssaoBlurX);
 			ssaoBlurPass.setBindGroup(1, this.globalUniformBindGroups.ssaoBlurKernelX);
-			ssaoBlurPass.dispatchWorkgroups(Math.ceil(this.canvas.width / 16), Math.ceil(this.canvas.height / 16), 1);
+			ssaoBlurPass.dispatchWorkgroups(Math.ceil(width / 16), Math.ceil(height / 16), 1);
 			ssaoBlurPass.end();
 			
 			ssaoBlurPass = encoder.beginComputePass(this.computePassDescriptors.ssaoBlurY);
 			ssaoBlurPass.setPipeline(this.pipelines.ssaoBlurY);
 			ssaoBlurPass.setBindGroup(0, this.globalUniformBindGroups.ssaoBlurY);
 			ssaoBlurPass.setBindGroup(1, this.globalUniformBindGroups.ssaoBlurKernelY);
-			ssaoBlurPass.dispatchWorkgroups(Math.ceil(this.canvas.width / 16), Math.ceil(this.canvas.height / 16), 1);
+			ssaoBlurPass.dispatchWorkgroups(Math.ceil(width / 16), Math.ceil(height / 16), 1);
 			ssaoBlurPass.end();
 
 			// ssao upscale pass
 			const ssaoUpscalePass = encoder.beginComputePass(this.computePassDescriptors.ssaoUpscale);
 			ssaoUpscalePass.setPipeline(this.pipelines.ssaoUpscale);
 			ssaoUpscalePass.setBindGroup(0, this.globalUniformBindGroups.ssaoUpscale);
-			ssaoUpscalePass.dispatchWorkgroups(Math.ceil(this.canvas.width / 8), Math.ceil(this.canvas.height / 8), 1);
+			ssaoUpscalePass.dispatchWorkgroups(Math.ceil(width / 8), Math.ceil(height / 8), 1);
 			ssaoUpscalePass.end();
 		}
 
+		{
+			// light cluster pass
+			const [clustersX, clustersY, clustersZ] = LIGHT_SETTINGS.clusterSize;
+			const clusterPass = encoder.beginComputePass(this.computePassDescriptors.lightClusters);
+			clusterPass.setPipeline(this.pipelines.lightClusters);
+			clusterPass.setBindGroup(0, this.globalUniformBindGroups.camera);
+			clusterPass.setBindGroup(1, this.globalUniformBindGroups.lightClusters);
+			clusterPass.dispatchWorkgroups(
+				Math.ceil(clustersX / 4),
+				Math.ceil(clustersY / 4),
+				Math.ceil(clustersZ / 4),
+			);
+			clusterPass.end();
+		}
+
 		if (this.globalUniformBindGroups.scene) {
 			// screen draw pass
 			const drawPass = encoder.beginRenderPass(this.renderPassDescriptors.sceneDraw!);
-			drawPass.setPipeline(this.pipelines.PBR);
 			drawPass.setBindGroup(0, this.globalUniformBindGroups.camera);
 			drawPass.setBindGroup(2, this.globalUniformBindGroups.depth);
 			drawPass.setBindGroup(3, this.globalUniformBindGroups.scene);
 
 			for (const model of this.objects) {
-				drawPass.setBindGroup(1, model.transformUniformBindGroup);
+				drawPass.setPipeline(this.pipelines.PBR[model.modelData.vertexLayout]);
 				drawPass.setVertexBuffer(0, model.modelData.vertexBuffer);
 				drawPass.setIndexBuffer(model.modelData.indexBuffer, model.modelData.indexFormat);
-				drawPass.drawIndexed(model.modelData.indexCount);
+				for (const mesh of model.modelData.meshes) {
+					drawPass.setBindGroup(1, model.bindGroup(mesh));
+					drawPass.drawIndexed(mesh.indexCount, 1, mesh.firstIndex);
+				}
 			}
 
 			if (this.sky.skyboxRenderData) {
@@ -1605,6 +2224,32 @@ export default class Renderer {
 			drawPass.end();
 		}
 
+		if (this.screenData) {
+			// bloom pass, down the chain then back up
+			const bloomPass = encoder.beginComputePass(this.computePassDescriptors.bloom);
+			const { bloomDownTexture, bloomUpTexture } = this.screenData;
+			for (let level = 0; level < bloomDownTexture.mipLevelCount; level++) {
+				bloomPass.setPipeline(level === 0 ? this.pipelines.bloomPrefilter : this.pipelines.bloomDownsample);
+				bloomPass.setBindGroup(0, this.globalUniformBindGroups.bloomDownsample[level]);
+				bloomPass.dispatchWorkgroups(
+					Math.ceil(Math.max(1, bloomDownTexture.width >> level) / 8),
+					Math.ceil(Math.max(1, bloomDownTexture.height >> level) / 8),
+					1,
+				);
+			}
+			bloomPass.setPipeline(this.pipelines.bloomUpsample);
+			for (let i = 0; i < bloomUpTexture.mipLevelCount; i++) {
+				const level = bloomUpTexture.mipLevelCount - 1 - i;
+				bloomPass.setBindGroup(0, this.globalUniformBindGroups.bloomUpsample[i]);
+				bloomPass.dispatchWorkgroups(
+					Math.ceil(Math.max(1, bloomUpTexture.width >> level) / 8),
+					Math.ceil(Math.max(1, bloomUpTexture.height >> level) / 8),
+					1,
+				);
+			}
+			bloomPass.end();
+		}
+
 		{
 			// post processing pass
 			const postFXPass = encoder.beginRenderPass(this.renderPassDescriptors.postFX!);
@@ -1653,4 +2298,11 @@ export default class Renderer {
 	public onResize() {
 		this.buildScreenRenderDescriptors();
 	}
+
+	/**
+	 * @returns the fraction of the canvas size the scene is currently drawn at
+	 */
+	public get renderScale(): number {
+		return RESOLUTION_SETTINGS.renderScale * this.dynamicResolution.scale;
+	}
 }
@@ -7,10 +7,13 @@ import { default as ssaoShaderSource } from "./shaders/ssao.wgsl";
 import { default as ssaoBlurShaderSource } from "./shaders/ssao_blur.wgsl";
 import { default as ssaoUpscaleShaderSource } from "./shaders/ssao_upscale.wgsl";
 import { default as postFXShaderSource } from "./shaders/post_fx.wgsl";
+import { default as bloomShaderSource } from "./shaders/bloom.wgsl";
 import { default as cubemapGeneratorSource } from "./shaders/cubemap_gen.wgsl";
 import { default as irradianceGeneratorSource } from "./shaders/irradiance_gen.wgsl";
 import { default as prefilterGeneratorSource } from "./shaders/prefilter_gen.wgsl";
 import { default as brdfGeneratorSource } from "./shaders/brdf_gen.wgsl";
+import { default as mipmapGeneratorSource } from "./shaders/mipmap_gen.wgsl";
+import { default as lightClustersSource } from "./shaders/light_clusters.wgsl";
 import { SHADOW_SETTINGS, SSAO_SETTINGS } from "./Renderer";
 
 export type Shaders = {
@@ -23,10 +26,13 @@ export type Shaders = {
 	ssaoBlur: GPUShaderModule;
 	ssaoUpscale: GPUShaderModule;
 	postFX: GPUShaderModule;
+	bloom: GPUShaderModule;
 	cubemapGenerator: GPUShaderModule;
 	irradianceGenerator: GPUShaderModule;
 	prefilterGenerator: GPUShaderModule;
 	brdfGenerator: GPUShaderModule;
+	mipmapGenerator: GPUShaderModule;
+	lightClusters: GPUShaderModule;
 };
 
 type ShaderLoaderDescriptor = {
@@ -40,37 +46,15 @@ export function loadShaders(device: GPUDevice): Shaders {
 		label: "cube shader",
 		code: basicShaderSource,
 	});
-	const PBR = loadShader(device, {
-		label: "pbr shader",
-		code: PBRShaderSource,
-		templates: {
-			"ssao_samples": Math.round(SSAO_SETTINGS.sampleCount).toString(),
-			"shadow_cascades": Math.round(SHADOW_SETTINGS.cascades.length).toString(),
-			"shadow_kernel_size": Math.round(SHADOW_SETTINGS.kernelSize).toString(),
-		},
-	});
+	const { PBR, shadows, ssao } = loadTemplatedShaders(device);
 	const depth = loadShader(device, {
 		label: "depth prepass shader",
 		code: depthShaderSource,
 	});
-	const shadows = loadShader(device, {
-		label: "shadow pass shader",
-		code: shadowShaderSource,
-		templates: {
-			"shadow_cascades": Math.round(SHADOW_SETTINGS.cascades.length).toString(),
-		}
-	});
 	const skybox = loadShader(device, {
 		label: "skybox draw shader",
 		code: skyboxShaderSource,
 	});
-	const ssao = loadShader(device, {
-		label: "ssao shader",
-		code: ssaoShaderSource,
-		templates: {
-			"ssao_samples": Math.round(SSAO_SETTINGS.sampleCount).toString(),
-		},
-	});
 	const ssaoBlur = loadShader(device, {
 		label: "ssao blur shader",
 		code: ssaoBlurShaderSource,
@@ -83,6 +67,10 @@ export function loadShaders(device: GPUDevice): Shaders {
 		label: "post processing shader",
 		code: postFXShaderSource,
 	});
+	const bloom = loadShader(device, {
+		label: "bloom compute shader",
+		code: bloomShaderSource,
+	});
 	const cubemapGenerator = loadShader(device, {
 		label: "cubemap generator compute shader",
 		code: cubemapGeneratorSource,
@@ -99,6 +87,14 @@ export function loadShaders(device: GPUDevice): Shaders {
 		label: "BRDF lut generator compute shader",
 		code: brdfGeneratorSource,
 	});
+	const mipmapGenerator = loadShader(device, {
+		label: "mipmap generator shader",
+		code: mipmapGeneratorSource,
+	});
+	const lightClusters = loadShader(device, {
+		label: "light clusters compute shader",
+		code: lightClustersSource,
+	});
 
 	return {
 		basic: basic,
@@ -110,10 +106,48 @@ export function loadShaders(device: GPUDevice): Shaders {
 		ssaoBlur: ssaoBlur,
 		ssaoUpscale: ssaoUpscale,
 		postFX: postFX,
+		bloom: bloom,
 		cubemapGenerator: cubemapGenerator,
 		irradianceGenerator: irradianceGenerator,
 		prefilterGenerator: prefilterGenerator,
 		brdfGenerator: brdfGenerator,
+		mipmapGenerator: mipmapGenerator,
+		lightClusters: lightClusters,
+	};
+}
+
+/**
+ * Loads the shaders with the render settings substituted into their templates, reloaded when those settings change
+ */
+export function loadTemplatedShaders(device: GPUDevice): Pick<Shaders, "PBR" | "shadows" | "ssao"> {
+	const PBR = loadShader(device, {
+		label: "pbr shader",
+		code: PBRShaderSource,
+		templates: {
+			"ssao_samples": Math.round(SSAO_SETTINGS.sampleCount).toString(),
+			"shadow_cascades": Math.round(SHADOW_SETTINGS.cascades.length).toString(),
+			"shadow_kernel_size": Math.round(SHADOW_SETTINGS.kernelSize).toString(),
+		},
+	});
+	const shadows = loadShader(device, {
+		label: "shadow pass shader",
+		code: shadowShaderSource,
+		templates: {
+			"shadow_cascades": Math.round(SHADOW_SETTINGS.cascades.length).toString(),
+		}
+	});
+	const ssao = loadShader(device, {
+		label: "ssao shader",
+		code: ssaoShaderSource,
+		templates: {
+			"ssao_samples": Math.round(SSAO_SETTINGS.sampleCount).toString(),
+		},
+	});
+
+	return {
+		PBR: PBR,
+		shadows: shadows,
+		ssao: ssao,
 	};
 }
 
@@ -1,14 +1,11 @@
 import { mat4, vec3 } from "wgpu-matrix";
-import HDRjs from "./utils/hdr";
-import loadHDR from "./utils/hdr";
+import HDRjs, { type HDRData } from "./utils/hdr";
 import type { Shaders } from "./Shaders";
 import Renderer, { POSTFX_SETTINGS, SKY_SETTINGS } from "./Renderer";
-
-// export type PointLight = {
-// 	position: vec3;
-// 	color: vec3;
-// 	intensity: number;
-// };
+import { LoadingTask } from "./Loading";
+import { ASSET_MANIFEST } from "./AssetManager";
+import { loadSkyCache, skyCacheKey, storeSkyCache } from "./SkyCache";
+import { encodeSkyBake, loadSkyBake } from "./SkyBake";
 
 type SkyboxRenderData = {
 	pipeline: GPURenderPipeline;
@@ -19,6 +16,22 @@ type SkyboxRenderData = {
 	textureBindGroup: GPUBindGroup;
 };
 
+/**
+ * The scene lighting maps, generated from the skybox, restored from the cache or loaded from a bake
+ */
+export type SkyLightingMaps = {
+	irradiance: GPUTexture;
+	prefilter: GPUTexture;
+	brdf: GPUTexture;
+};
+
+/**
+ * The skybox cubemap, generated from the hdr, and the lighting maps
+ */
+export type SkyMaps = SkyLightingMaps & {
+	skybox: GPUTexture;
+};
+
 type SceneData = {
 	irradianceTexture: GPUTexture;
 	prefilterTexture: GPUTexture;
@@ -30,285 +43,482 @@ export default class Sky {
 
 	public skyboxRenderData: SkyboxRenderData | null = null;
 	public sceneRenderData: SceneData | null = null;
+	// whether the maps were loaded from a bake rather than generated with the current settings
+	public baked = false;
+	private maps: SkyMaps | null = null;
+	// counts the loads started, so a load that was superseded by a later reload drops its maps
+	private loadCount = 0;
 
 	constructor(renderer: Renderer, device: GPUDevice, shaders: Shaders) {
-		let startTime: number;
-		if (this.debug) {
-			console.log("Loading skybox hdr...");
-			startTime = performance.now();
+		const task = new LoadingTask("Preparing sky lighting", true, "steps");
+		this.load(renderer, device, shaders, task).catch((err) => {
+			console.error(err);
+			task.fail(err);
+		});
+	}
+
+	/**
+	 * Prepares the lighting maps again after the sky settings changed, drawing with the current maps until they're ready
+	 */
+	public reload(renderer: Renderer, device: GPUDevice, shaders: Shaders) {
+		const task = new LoadingTask("Preparing sky lighting", false, "steps");
+		this.load(renderer, device, shaders, task).catch((err) => {
+			console.error(err);
+			task.fail(err);
+		});
+	}
+
+	/**
+	 * Rebuilds the skybox pipeline after the settings it's built with changed
+	 */
+	public rebuildSkybox(device: GPUDevice, shaders: Shaders) {
+		if (this.maps) {
+			this.skyboxRenderData = this.createSkyboxRenderData(device, shaders, this.maps.skybox);
 		}
+	}
 
-		// load the skybox hdr texture
-		loadHDR(`/${SKY_SETTINGS.skyboxSource}.hdr`, 100.0).then((hdr) => {
+	/**
+	 * Reads the maps back into a bake for SKY_SETTINGS.bakedSource, with the skybox generated again from the hdr at
+	 * SKY_SETTINGS.bakedSkyboxResolution. Maps that were loaded from a bake are exported as they are.
+	 * @throws Error if the maps aren't loaded yet
+	 */
+	public async exportBake(renderer: Renderer, device: GPUDevice, shaders: Shaders): Promise<ArrayBuffer> {
+		if (!this.maps) {
+			throw new Error("Sky lighting maps aren't loaded yet");
+		}
+		if (this.baked) {
+			return encodeSkyBake(device, this.maps);
+		}
+		const maps = this.maps;
+		const hdr = await renderer.assets.hdr(SKY_SETTINGS.skyboxSource);
+		const skybox = this.generateSkybox(renderer, device, shaders, hdr, SKY_SETTINGS.bakedSkyboxResolution);
+		try {
+			return await encodeSkyBake(device, { ...maps, skybox: skybox });
+		} finally {
+			skybox.destroy();
+		}
+	}
+
+	/**
+	 * Loads the skybox and lighting maps from the bake if there is one. Otherwise generates the skybox from the hdr,
+	 * and restores the lighting maps from the cache or generates them from the skybox and caches them.
+	 */
+	private async load(renderer: Renderer, device: GPUDevice, shaders: Shaders, task: LoadingTask) {
+		const source = ASSET_MANIFEST.hdrs[SKY_SETTINGS.skyboxSource];
+		const loadId = ++this.loadCount;
+		const superseded = () => loadId !== this.loadCount;
+		let startTime = performance.now();
+
+		let maps = await this.loadBake(device);
+		const baked = maps !== null;
+		let key: string | null = null;
+		let cached = false;
+		if (maps) {
+			// the hdr isn't needed at all
 			if (this.debug) {
+				console.log("Loaded baked sky maps in ", (performance.now() - startTime).toFixed(2), "ms.");
+			}
+			task.progress(1, 1);
+		} else {
+			// the cache is only an optimization, so any failure falls back to generating the maps
+			key = await skyCacheKey(source).catch((err) => {
+				console.warn("Sky lighting cache unavailable:", err);
+				return null;
+			});
+			let lighting = key
+				? await loadSkyCache(device, source.url, key).catch((err) => {
+						console.warn("Failed to read the sky lighting cache:", err);
+						return null;
+					})
+				: null;
+			cached = lighting !== null;
+			if (cached && this.debug) {
 				console.log(
-					"Loaded hdr in ",
+					"Restored scene lighting maps from cache in ",
 					(performance.now() - startTime).toFixed(2),
-					"ms. Generating scene lighting maps...",
+					"ms.",
 				);
+			}
+			startTime = performance.now();
+
+			if (this.debug) {
+				console.log("Loading skybox hdr...");
+			}
+			const hdr = await renderer.assets.hdr(SKY_SETTINGS.skyboxSource);
+			// nothing is generated for settings that changed again while loading
+			if (superseded()) {
+				renderer.assets.release(hdr);
+				for (const texture of Object.values(lighting ?? {})) {
+					texture.destroy();
+				}
+				task.finish();
+				return;
+			}
+			if (this.debug) {
+				console.log("Loaded hdr in ", (performance.now() - startTime).toFixed(2), "ms. Generating sky maps...");
 				startTime = performance.now();
 			}
 
-			// generate the skybox cubemap from the equirrectangular hdr
-			const cubemapGeneratorPipeline = device.createComputePipeline({
-				label: "skybox cubemap generator compute pipeline",
-				layout: "auto",
-				compute: {
-					module: shaders.cubemapGenerator,
-					entryPoint: "compute_skybox",
+			// steps are the skybox cubemap, then unless they're cached the irradiance map, each prefilter mip level and
+			// the BRDF lut
+			const steps = lighting ? 1 : 3 + SKY_SETTINGS.prefilterMipLevels;
+			let step = 0;
+			const onStep = () => task.progress(++step, steps);
+			task.progress(step, steps);
+			// the skybox isn't cached, it's a single dispatch but far larger than the lighting maps to store
+			const skybox = this.generateSkybox(renderer, device, shaders, hdr, SKY_SETTINGS.skyboxResolution);
+			onStep();
+			lighting ??= this.generateLightingMaps(device, shaders, skybox, onStep);
+			maps = { skybox: skybox, ...lighting };
+
+			if (this.debug) {
+				console.log("Generated sky maps in ", (performance.now() - startTime).toFixed(2), "ms.");
+			}
+		}
+
+		// a later load replaces the maps with ones built from the current settings
+		if (superseded()) {
+			for (const texture of Object.values(maps)) {
+				texture.destroy();
+			}
+			task.finish();
+			return;
+		}
+
+		const previousMaps = this.maps;
+		this.maps = maps;
+		this.baked = baked;
+		this.skyboxRenderData = this.createSkyboxRenderData(device, shaders, maps.skybox);
+		this.sceneRenderData = {
+			irradianceTexture: maps.irradiance,
+			prefilterTexture: maps.prefilter,
+			brdfTexture: maps.brdf,
+		};
+		renderer.onLightingLoad();
+		// replaced by a reload, and no longer bound
+		if (previousMaps) {
+			for (const texture of Object.values(previousMaps)) {
+				texture.destroy();
+			}
+		}
+
+		// the maps are only ready once the gpu has run the generators or uploads
+		await device.queue.onSubmittedWorkDone();
+		task.finish();
+
+		// the maps may have been replaced and destroyed by a later load in the meantime
+		if (key && !cached && !superseded()) {
+			startTime = performance.now();
+			try {
+				await storeSkyCache(device, source.url, key, maps);
+				if (this.debug) {
+					console.log("Cached scene lighting maps in ", (performance.now() - startTime).toFixed(2), "ms.");
+				}
+			} catch (err) {
+				console.warn("Failed to cache the sky lighting maps:", err);
+			}
+		}
+	}
+
+	/**
+	 * @returns the maps from SKY_SETTINGS.bakedSource, or null if there's no bake or it failed to load
+	 */
+	private async loadBake(device: GPUDevice): Promise<SkyMaps | null> {
+		if (!SKY_SETTINGS.bakedSource) {
+			return null;
+		}
+		// not required, the sky lighting task already holds the first frame
+		const task = new LoadingTask(`Loading ${SKY_SETTINGS.bakedSource}`, false);
+		try {
+			const maps = await loadSkyBake(device, SKY_SETTINGS.bakedSource, (loaded, total) =>
+				task.progress(loaded, total),
+			);
+			task.finish();
+			return maps;
+		} catch (err) {
+			// a broken bake falls back to generating the maps from the hdr
+			console.error(err);
+			task.fail(err);
+			return null;
+		}
+	}
+
+	/**
+	 * Generates the skybox cubemap from an equirrectangular hdr, and releases the hdr
+	 * @param resolution width and height of each face
+	 */
+	private generateSkybox(
+		renderer: Renderer,
+		device: GPUDevice,
+		shaders: Shaders,
+		hdr: HDRData,
+		resolution: number,
+	): GPUTexture {
+		// generate the skybox cubemap from the equirrectangular hdr
+		const cubemapGeneratorPipeline = device.createComputePipeline({
+			label: "skybox cubemap generator compute pipeline",
+			layout: "auto",
+			compute: {
+				module: shaders.cubemapGenerator,
+				entryPoint: "compute_skybox",
+			},
+		});
+		const skyboxRectangleTexture = device.createTexture({
+			label: "skbox equirrectangular texture",
+			size: [hdr.width, hdr.height],
+			format: "rgba16float",
+			sampleCount: 1,
+			dimension: "2d",
+			textureBindingViewDimension: "2d",
+			usage: GPUTextureUsage.COPY_DST | GPUTextureUsage.TEXTURE_BINDING,
+		});
+		const skyboxRectangleSampler = device.createSampler({
+			minFilter: "linear",
+			magFilter: "linear",
+			addressModeU: "clamp-to-edge",
+			addressModeV: "clamp-to-edge",
+			addressModeW: "clamp-to-edge",
+		});
+		device.queue.writeTexture(
+			{
+				texture: skyboxRectangleTexture,
+				mipLevel: 0,
+				origin: { x: 0, y: 0, z: 0 },
+			},
+			hdr.data,
+			{ bytesPerRow: hdr.width * 8, rowsPerImage: hdr.height },
+			{ width: hdr.width, height: hdr.height },
+		);
+		// the pixels are on the gpu now
+		renderer.assets.release(hdr);
+		const skyboxCubemapTexture = device.createTexture({
+			label: "skybox cubemap texture",
+			size: [resolution, resolution, 6],
+			format: "rgba16float",
+			sampleCount: 1,
+			dimension: "2d",
+			usage: GPUTextureUsage.COPY_SRC | GPUTextureUsage.STORAGE_BINDING | GPUTextureUsage.TEXTURE_BINDING,
+		});
+		const cubemapGeneratorBindGroup = device.createBindGroup({
+			label: "skybox cubemap generator bind group",
+			layout: cubemapGeneratorPipeline.getBindGroupLayout(0),
+			entries: [
+				{
+					binding: 0,
+					resource: skyboxRectangleTexture.createView(),
+				},
+				{
+					binding: 1,
+					resource: skyboxRectangleSampler,
 				},
-			});
-			const skyboxRectangleTexture = device.createTexture({
-				label: "skbox equirrectangular texture",
-				size: [hdr.width, hdr.height],
-				format: "rgba16float",
-				sampleCount: 1,
-				dimension: "2d",
-				textureBindingViewDimension: "2d",
-				usage: GPUTextureUsage.COPY_DST | GPUTextureUsage.TEXTURE_BINDING,
-			});
-			const skyboxRectangleSampler = device.createSampler({
-				minFilter: "linear",
-				magFilter: "linear",
-				addressModeU: "clamp-to-edge",
-				addressModeV: "clamp-to-edge",
-				addressModeW: "clamp-to-edge",
-			});
-			device.queue.writeTexture(
 				{
-					texture: skyboxRectangleTexture,
-					mipLevel: 0,
-					origin: { x: 0, y: 0, z: 0 },
+					binding: 2,
+					resource: skyboxCubemapTexture.createView(),
+				},
+			],
+		});
+		{
+			const encoder = device.createCommandEncoder();
+			const computePass = encoder.beginComputePass();
+			computePass.setPipeline(cubemapGeneratorPipeline);
+			computePass.setBindGroup(0, cubemapGeneratorBindGroup);
+			computePass.dispatchWorkgroups(Math.ceil(resolution / 8), Math.ceil(resolution / 8), 6);
+			computePass.end();
+			device.queue.submit([encoder.finish()]);
+		}
+		return skyboxCubemapTexture;
+	}
+
+	/**
+	 * Generates the scene lighting maps from the skybox cubemap
+	 * @param onStep called after each generator is submitted
+	 */
+	private generateLightingMaps(
+		device: GPUDevice,
+		shaders: Shaders,
+		skyboxCubemapTexture: GPUTexture,
+		onStep: () => void,
+	): SkyLightingMaps {
+		// create the irradiance map
+		const irradianceGeneratorPipeline = device.createComputePipeline({
+			label: "irradiance map generator compute pipeline",
+			layout: "auto",
+			compute: {
+				module: shaders.irradianceGenerator,
+				entryPoint: "compute_irradiance",
+				constants: {
+					delta: SKY_SETTINGS.irradianceSampleDelta,
 				},
-				hdr.data,
-				{ bytesPerRow: hdr.width * 8, rowsPerImage: hdr.height },
-				{ width: hdr.width, height: hdr.height },
+			},
+		});
+		const irradianceTexture = device.createTexture({
+			label: "irradiance texture",
+			size: [SKY_SETTINGS.irradianceResolution, SKY_SETTINGS.irradianceResolution, 6],
+			format: "rgba16float",
+			sampleCount: 1,
+			dimension: "2d",
+			usage: GPUTextureUsage.COPY_SRC | GPUTextureUsage.STORAGE_BINDING | GPUTextureUsage.TEXTURE_BINDING,
+		});
+		const irradianceGeneratorBindGroup = device.createBindGroup({
+			label: "irradiance generator bind group",
+			layout: irradianceGeneratorPipeline.getBindGroupLayout(0),
+			entries: [
+				{
+					binding: 0,
+					resource: skyboxCubemapTexture.createView({
+						dimension: "2d-array",
+					}),
+				},
+				{
+					binding: 1,
+					resource: irradianceTexture.createView(),
+				},
+			],
+		});
+		{
+			const commandEncoder = device.createCommandEncoder();
+			const computePass = commandEncoder.beginComputePass();
+			computePass.setPipeline(irradianceGeneratorPipeline);
+			computePass.setBindGroup(0, irradianceGeneratorBindGroup);
+			computePass.dispatchWorkgroups(
+				Math.ceil(SKY_SETTINGS.irradianceResolution / 4),
+				Math.ceil(SKY_SETTINGS.irradianceResolution / 4),
+				6,
 			);
-			const skyboxCubemapTexture = device.createTexture({
-				label: "skybox cubemap texture",
-				size: [SKY_SETTINGS.skyboxResolution, SKY_SETTINGS.skyboxResolution, 6],
-				format: "rgba16float",
-				sampleCount: 1,
-				dimension: "2d",
-				usage: GPUTextureUsage.COPY_SRC | GPUTextureUsage.STORAGE_BINDING | GPUTextureUsage.TEXTURE_BINDING,
-			});
-			const cubemapGeneratorBindGroup = device.createBindGroup({
-				label: "skybox cubemap generator bind group",
-				layout: cubemapGeneratorPipeline.getBindGroupLayout(0),
-				entries: [
-					{
-						binding: 0,
-						resource: skyboxRectangleTexture.createView(),
-					},
-					{
-						binding: 1,
-						resource: skyboxRectangleSampler,
-					},
-					{
-						binding: 2,
-						resource: skyboxCubemapTexture.createView(),
-					},
-				],
-			});
-			{
-				const encoder = device.createCommandEncoder();
-				const computePass = encoder.beginComputePass();
-				computePass.setPipeline(cubemapGeneratorPipeline);
-				computePass.setBindGroup(0, cubemapGeneratorBindGroup);
-				computePass.dispatchWorkgroups(
-					Math.ceil(SKY_SETTINGS.skyboxResolution / 8),
-					Math.ceil(SKY_SETTINGS.skyboxResolution / 8),
-					6,
-				);
-				computePass.end();
-				device.queue.submit([encoder.finish()]);
-				this.skyboxRenderData = this.createSkyboxRenderData(device, shaders, skyboxCubemapTexture);
-			}
+			computePass.end();
+			device.queue.submit([commandEncoder.finish()]);
+		}
+		onStep();
 
-			// create the irradiance map
-			const irradianceGeneratorPipeline = device.createComputePipeline({
-				label: "irradiance map generator compute pipeline",
-				layout: "auto",
-				compute: {
-					module: shaders.irradianceGenerator,
-					entryPoint: "compute_irradiance",
-					constants: {
-						delta: SKY_SETTINGS.irradianceSampleDelta,
-					},
+		// generate the prefilter maps
+		const prefilterGeneratorPipeline = device.createComputePipeline({
+			label: "prefilter generator pipeline",
+			layout: "auto",
+			compute: {
+				module: shaders.prefilterGenerator,
+				entryPoint: "compute_prefilter",
+				constants: {
+					sample_count: SKY_SETTINGS.prefilterSamples,
 				},
-			});
-			const irradianceTexture = device.createTexture({
-				label: "irradiance texture",
-				size: [SKY_SETTINGS.irradianceResolution, SKY_SETTINGS.irradianceResolution, 6],
-				format: "rgba16float",
-				sampleCount: 1,
-				dimension: "2d",
-				usage: GPUTextureUsage.COPY_SRC | GPUTextureUsage.STORAGE_BINDING | GPUTextureUsage.TEXTURE_BINDING,
-			});
-			const irradianceGeneratorBindGroup = device.createBindGroup({
-				label: "irradiance generator bind group",
-				layout: irradianceGeneratorPipeline.getBindGroupLayout(0),
+			},
+		});
+		const prefilterCubemapSampler = device.createSampler({
+			label: "sky cubemap filter for prefilter generator",
+			minFilter: "linear",
+			magFilter: "linear",
+			addressModeU: "clamp-to-edge",
+			addressModeV: "clamp-to-edge",
+			addressModeW: "clamp-to-edge",
+		});
+		const prefilterTexture = device.createTexture({
+			label: "prefilter texture",
+			size: [SKY_SETTINGS.prefilterResolution, SKY_SETTINGS.prefilterResolution, 6],
+			format: "rgba16float",
+			sampleCount: 1,
+			dimension: "2d",
+			usage: GPUTextureUsage.COPY_SRC | GPUTextureUsage.STORAGE_BINDING | GPUTextureUsage.TEXTURE_BINDING,
+			mipLevelCount: SKY_SETTINGS.prefilterMipLevels,
+		});
+		const prefilterGeneratorUniformBuffer = device.createBuffer({
+			label: "prefilter uniform buffer",
+			size: 4,
+			usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+		});
+		for (let i = 0; i < SKY_SETTINGS.prefilterMipLevels; i++) {
+			const roughness = i / (SKY_SETTINGS.prefilterMipLevels - 1);
+			const prefilterGeneratorBindGroup = device.createBindGroup({
+				label: "prefilter generator bind group",
+				layout: prefilterGeneratorPipeline.getBindGroupLayout(0),
 				entries: [
 					{
 						binding: 0,
 						resource: skyboxCubemapTexture.createView({
-							dimension: "2d-array",
+							dimension: "cube",
 						}),
 					},
 					{
 						binding: 1,
-						resource: irradianceTexture.createView(),
-					},
-				],
-			});
-			{
-				const commandEncoder = device.createCommandEncoder();
-				const computePass = commandEncoder.beginComputePass();
-				computePass.setPipeline(irradianceGeneratorPipeline);
-				computePass.setBindGroup(0, irradianceGeneratorBindGroup);
-				computePass.dispatchWorkgroups(
-					Math.ceil(SKY_SETTINGS.irradianceResolution / 4),
-					Math.ceil(SKY_SETTINGS.irradianceResolution / 4),
-					6,
-				);
-				computePass.end();
-				device.queue.submit([commandEncoder.finish()]);
-			}
-
-			// generate the prefilter maps
-			const prefilterGeneratorPipeline = device.createComputePipeline({
-				label: "prefilter generator pipeline",
-				layout: "auto",
-				compute: {
-					module: shaders.prefilterGenerator,
-					entryPoint: "compute_prefilter",
-					constants: {
-						sample_count: SKY_SETTINGS.prefilterSamples,
+						resource: prefilterCubemapSampler,
 					},
-				},
-			});
-			const prefilterCubemapSampler = device.createSampler({
-				label: "sky cubemap filter for prefilter generator",
-				minFilter: "linear",
-				magFilter: "linear",
-				addressModeU: "clamp-to-edge",
-				addressModeV: "clamp-to-edge",
-				addressModeW: "clamp-to-edge",
-			});
-			const prefilterTexture = device.createTexture({
-				label: "prefilter texture",
-				size: [SKY_SETTINGS.prefilterResolution, SKY_SETTINGS.prefilterResolution, 6],
-				format: "rgba16float",
-				sampleCount: 1,
-				dimension: "2d",
-				usage: GPUTextureUsage.COPY_SRC | GPUTextureUsage.STORAGE_BINDING | GPUTextureUsage.TEXTURE_BINDING,
-				mipLevelCount: SKY_SETTINGS.prefilterMipLevels,
-			});
-			const prefilterGeneratorUniformBuffer = device.createBuffer({
-				label: "prefilter uniform buffer",
-				size: 4,
-				usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-			});
-			for (let i = 0; i < SKY_SETTINGS.prefilterMipLevels; i++) {
-				const roughness = i / (SKY_SETTINGS.prefilterMipLevels - 1);
-				const prefilterGeneratorBindGroup = device.createBindGroup({
-					label: "prefilter generator bind group",
-					layout: prefilterGeneratorPipeline.getBindGroupLayout(0),
-					entries: [
-						{
-							binding: 0,
-							resource: skyboxCubemapTexture.createView({
-								dimension: "cube",
-							}),
-						},
-						{
-							binding: 1,
-							resource: prefilterCubemapSampler,
-						},
-						{
-							binding: 2,
-							resource: prefilterTexture.createView({
-								baseMipLevel: i,
-								mipLevelCount: 1,
-							}),
-						},
-						{
-							binding: 3,
-							resource: {
-								buffer: prefilterGeneratorUniformBuffer,
-								offset: 0,
-								size: 4,
-							},
-						},
-					],
-				});
-				device.queue.writeBuffer(prefilterGeneratorUniformBuffer, 0, new Float32Array([roughness]).buffer);
-
-				const encoder = device.createCommandEncoder();
-				const pass = encoder.beginComputePass();
-				pass.setPipeline(prefilterGeneratorPipeline);
-				pass.setBindGroup(0, prefilterGeneratorBindGroup);
-				const mipResolution = SKY_SETTINGS.prefilterResolution / 2 ** i;
-				pass.dispatchWorkgroups(Math.ceil(mipResolution / 4), Math.ceil(mipResolution / 4), 6);
-				pass.end();
-				device.queue.submit([encoder.finish()]);
-			}
-
-			// create the BRDF lut
-			const brdfGeneratorPipeline = device.createComputePipeline({
-				label: "BRDF LUT generator pipeline",
-				layout: "auto",
-				compute: {
-					module: shaders.brdfGenerator,
-					entryPoint: "compute_brdf",
-					constants: {
-						sample_count: SKY_SETTINGS.brdfSamples,
-						lut_size: SKY_SETTINGS.brdfResolution,
+					{
+						binding: 2,
+						resource: prefilterTexture.createView({
+							baseMipLevel: i,
+							mipLevelCount: 1,
+						}),
 					},
-				},
-			});
-			const brdfLUT = device.createTexture({
-				label: "BRDF LUT",
-				size: [SKY_SETTINGS.brdfResolution, SKY_SETTINGS.brdfResolution],
-				format: "rgba16float",
-				sampleCount: 1,
-				dimension: "2d",
-				usage: GPUTextureUsage.COPY_SRC | GPUTextureUsage.STORAGE_BINDING | GPUTextureUsage.TEXTURE_BINDING,
-			});
-			const brdfGeneratorBindGroup = device.createBindGroup({
-				label: "BRDF generator bind group",
-				layout: brdfGeneratorPipeline.getBindGroupLayout(0),
-				entries: [
 					{
-						binding: 0,
-						resource: brdfLUT.createView(),
+						binding: 3,
+						resource: {
+							buffer: prefilterGeneratorUniformBuffer,
+							offset: 0,
+							size: 4,
+						},
 					},
 				],
 			});
+			device.queue.writeBuffer(prefilterGeneratorUniformBuffer, 0, new Float32Array([roughness]).buffer);
+
 			const encoder = device.createCommandEncoder();
 			const pass = encoder.beginComputePass();
-			pass.setPipeline(brdfGeneratorPipeline);
-			pass.setBindGroup(0, brdfGeneratorBindGroup);
-			pass.dispatchWorkgroups(
-				Math.ceil(SKY_SETTINGS.brdfResolution / 8),
-				Math.ceil(SKY_SETTINGS.brdfResolution / 8),
-				1,
-			);
+			pass.setPipeline(prefilterGeneratorPipeline);
+			pass.setBindGroup(0, prefilterGeneratorBindGroup);
+			const mipResolution = SKY_SETTINGS.prefilterResolution / 2 ** i;
+			pass.dispatchWorkgroups(Math.ceil(mipResolution / 4), Math.ceil(mipResolution / 4), 6);
 			pass.end();
 			device.queue.submit([encoder.finish()]);
+			onStep();
+		}
 
-			this.sceneRenderData = {
-				irradianceTexture: irradianceTexture,
-				prefilterTexture: prefilterTexture,
-				brdfTexture: brdfLUT,
-			};
-
-			if (this.debug) {
-				console.log("Generated scene lighting maps in ", (performance.now() - startTime).toFixed(2), "ms.");
-			}
-
-			renderer.onLightingLoad();
+		// create the BRDF lut
+		const brdfGeneratorPipeline = device.createComputePipeline({
+			label: "BRDF LUT generator pipeline",
+			layout: "auto",
+			compute: {
+				module: shaders.brdfGenerator,
+				entryPoint: "compute_brdf",
+				constants: {
+					sample_count: SKY_SETTINGS.brdfSamples,
+					lut_size: SKY_SETTINGS.brdfResolution,
+				},
+			},
 		});
+		const brdfLUT = device.createTexture({
+			label: "BRDF LUT",
+			size: [SKY_SETTINGS.brdfResolution, SKY_SETTINGS.brdfResolution],
+			format: "rgba16float",
+			sampleCount: 1,
+			dimension: "2d",
+			usage: GPUTextureUsage.COPY_SRC | GPUTextureUsage.STORAGE_BINDING | GPUTextureUsage.TEXTURE_BINDING,
+		});
+		const brdfGeneratorBindGroup = device.createBindGroup({
+			label: "BRDF generator bind group",
+			layout: brdfGeneratorPipeline.getBindGroupLayout(0),
+			entries: [
+				{
+					binding: 0,
+					resource: brdfLUT.createView(),
+				},
+			],
+		});
+		const encoder = device.createCommandEncoder();
+		const pass = encoder.beginComputePass();
+		pass.setPipeline(brdfGeneratorPipeline);
+		pass.setBindGroup(0, brdfGeneratorBindGroup);
+		pass.dispatchWorkgroups(
+			Math.ceil(SKY_SETTINGS.brdfResolution / 8),
+			Math.ceil(SKY_SETTINGS.brdfResolution / 8),
+			1,
+		);
+		pass.end();
+		device.queue.submit([encoder.finish()]);
+		onStep();
+
+		return {
+			irradiance: irradianceTexture,
+			prefilter: prefilterTexture,
+			brdf: brdfLUT,
+		};
 	}
 
 	private createSkyboxRenderData(device: GPUDevice, shaders: Shaders, skybox: GPUTexture): SkyboxRenderData {
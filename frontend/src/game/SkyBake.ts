@@ -0,0 +1,138 @@
+import type { SkyMaps } from "./Sky";
+import { mipLevelCount } from "./TextureLoader";
+import { fetchBuffer, type ProgressCallback } from "./utils/fetch";
+import { createTextureFromData, readTexture, type TextureData } from "./utils/texture";
+
+export const SKY_BAKE_MAGIC = 0x4c424942; // "BIBL"
+export const SKY_BAKE_VERSION = 3;
+
+const HEADER_SIZE = 8;
+const TEXTURE_HEADER_SIZE = 16;
+const BYTES_PER_PIXEL = 8;
+
+// stored in this order, with the number of layers each has
+const SKY_BAKE_TEXTURES: [keyof SkyMaps, number][] = [
+	["skybox", 6],
+	["irradiance", 6],
+	["prefilter", 6],
+	["brdf", 1],
+];
+
+/**
+ * Reads the skybox and lighting maps back from the gpu and encodes them into a bake, loaded with loadSkyBake instead
+ * of generating the maps from the hdr.
+ *
+ * Layout, little-endian, with every field and level 8 byte aligned:
+ * - header: magic u32, version u16, reserved u16
+ * - textures, in the order skybox, irradiance, prefilter, brdf: width u32, height u32, layers u32,
+ *   mip level count u32, then each mip level's rgba16float pixels, the layers one after another
+ */
+export async function encodeSkyBake(device: GPUDevice, maps: SkyMaps): Promise<ArrayBuffer> {
+	// read one after another, to keep only one texture's staging buffers around at a time
+	const textures: TextureData[] = [];
+	for (const [name] of SKY_BAKE_TEXTURES) {
+		textures.push(await readTexture(device, maps[name]));
+	}
+
+	let size = HEADER_SIZE;
+	for (const texture of textures) {
+		size += TEXTURE_HEADER_SIZE + texture.levels.reduce((acc, level) => acc + level.byteLength, 0);
+	}
+	const buffer = new ArrayBuffer(size);
+	const view = new DataView(buffer);
+	view.setUint32(0, SKY_BAKE_MAGIC, true);
+	view.setUint16(4, SKY_BAKE_VERSION, true);
+	let offset = HEADER_SIZE;
+	for (const texture of textures) {
+		view.setUint32(offset, texture.width, true);
+		view.setUint32(offset + 4, texture.height, true);
+		view.setUint32(offset + 8, texture.layers, true);
+		view.setUint32(offset + 12, texture.levels.length, true);
+		offset += TEXTURE_HEADER_SIZE;
+		for (const level of texture.levels) {
+			new Uint8Array(buffer, offset, level.byteLength).set(level);
+			offset += level.byteLength;
+		}
+	}
+	return buffer;
+}
+
+/**
+ * @returns the bake's textures, with levels viewing the buffer rather than copying it
+ * @throws Error if the buffer isn't a bake of a supported version
+ */
+export function decodeSkyBake(buffer: ArrayBuffer, url: string): { [name in keyof SkyMaps]: TextureData } {
+	const view = new DataView(buffer);
+	const checkLength = (length: number) => {
+		if (length > buffer.byteLength) {
+			throw new Error(`Invalid sky bake ${url}: unexpected end of data`);
+		}
+	};
+	checkLength(HEADER_SIZE);
+	if (view.getUint32(0, true) !== SKY_BAKE_MAGIC) {
+		throw new Error(`Invalid sky bake ${url}`);
+	}
+	const version = view.getUint16(4, true);
+	if (version !== SKY_BAKE_VERSION) {
+		throw new Error(`Unsupported sky bake version ${version} in ${url}, expected ${SKY_BAKE_VERSION}`);
+	}
+
+	const textures: Partial<{ [name in keyof SkyMaps]: TextureData }> = {};
+	let offset = HEADER_SIZE;
+	for (const [name, layers] of SKY_BAKE_TEXTURES) {
+		checkLength(offset + TEXTURE_HEADER_SIZE);
+		const width = view.getUint32(offset, true);
+		const height = view.getUint32(offset + 4, true);
+		const textureLayers = view.getUint32(offset + 8, true);
+		const levelCount = view.getUint32(offset + 12, true);
+		offset += TEXTURE_HEADER_SIZE;
+		if (width === 0 || height === 0 || textureLayers !== layers) {
+			throw new Error(`Invalid sky bake ${url}: ${name} is ${width}x${height} with ${textureLayers} layers`);
+		}
+		if (levelCount === 0 || levelCount > mipLevelCount(width, height)) {
+			throw new Error(`Invalid sky bake ${url}: ${name} has ${levelCount} mip levels`);
+		}
+
+		const levels: Uint8Array[] = [];
+		for (let level = 0; level < levelCount; level++) {
+			const length = Math.max(width >> level, 1) * Math.max(height >> level, 1) * layers * BYTES_PER_PIXEL;
+			checkLength(offset + length);
+			levels.push(new Uint8Array(buffer, offset, length));
+			offset += length;
+		}
+		textures[name] = {
+			label: `baked ${name} texture`,
+			width: width,
+			height: height,
+			layers: layers,
+			levels: levels,
+		};
+	}
+	if (offset !== buffer.byteLength) {
+		throw new Error(`Invalid sky bake ${url}: ${buffer.byteLength - offset} trailing bytes`);
+	}
+	return textures as { [name in keyof SkyMaps]: TextureData };
+}
+
+/**
+ * Loads a bake made with encodeSkyBake into textures
+ * @returns the maps, or null if there's no bake at the url
+ * @throws Error if the bake can't be loaded or is invalid
+ */
+export async function loadSkyBake(
+	device: GPUDevice,
+	url: string,
+	onProgress?: ProgressCallback,
+): Promise<SkyMaps | null> {
+	const head = await fetch(url, { method: "HEAD" });
+	if (head.status === 404) {
+		return null;
+	}
+	const textures = decodeSkyBake(await fetchBuffer(url, onProgress), url);
+	return {
+		skybox: createTextureFromData(device, textures.skybox),
+		irradiance: createTextureFromData(device, textures.irradiance),
+		prefilter: createTextureFromData(device, textures.prefilter),
+		brdf: createTextureFromData(device, textures.brdf),
+	};
+}
@@ -0,0 +1,105 @@
+import { SKY_SETTINGS } from "./Renderer";
+import type { HDRAssetSource } from "./AssetManager";
+import type { SkyLightingMaps } from "./Sky";
+import { createTextureFromData, readTexture, type TextureData } from "./utils/texture";
+
+const DB_NAME = "sky-cache";
+const STORE_NAME = "maps";
+// bump when the generators or the stored layout change, so old entries are regenerated
+const CACHE_VERSION = 3;
+
+// only the lighting maps are cached, the skybox is quicker to generate again than to store
+type SkyCacheEntry = {
+	key: string;
+	irradiance: TextureData;
+	prefilter: TextureData;
+	brdf: TextureData;
+};
+
+/**
+ * @returns a hash of the generator settings and the source file's version, or null if the file's version is unknown
+ */
+export async function skyCacheKey(source: HDRAssetSource): Promise<string | null> {
+	// the server's validator for the file, so replacing the hdr invalidates the cache
+	const response = await fetch(source.url, { method: "HEAD" });
+	const fileVersion =
+		response.headers.get("ETag") ?? response.headers.get("Last-Modified") ?? response.headers.get("Content-Length");
+	if (!response.ok || fileVersion === null || !crypto.subtle) {
+		return null;
+	}
+	const settings = JSON.stringify({
+		version: CACHE_VERSION,
+		url: source.url,
+		file: fileVersion,
+		maxComponent: source.maxComponent,
+		skyboxResolution: SKY_SETTINGS.skyboxResolution,
+		irradianceResolution: SKY_SETTINGS.irradianceResolution,
+		irradianceSampleDelta: SKY_SETTINGS.irradianceSampleDelta,
+		prefilterResolution: SKY_SETTINGS.prefilterResolution,
+		prefilterMipLevels: SKY_SETTINGS.prefilterMipLevels,
+		prefilterSamples: SKY_SETTINGS.prefilterSamples,
+		brdfResolution: SKY_SETTINGS.brdfResolution,
+		brdfSamples: SKY_SETTINGS.brdfSamples,
+	});
+	const hash = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(settings));
+	return Array.from(new Uint8Array(hash), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Restores the maps cached for the source. Entries with a different key are stale and are deleted.
+ * @returns the maps, or null if nothing usable is cached
+ */
+export async function loadSkyCache(device: GPUDevice, url: string, key: string): Promise<SkyLightingMaps | null> {
+	const db = await openDatabase();
+	try {
+		const entry = await request<SkyCacheEntry | undefined>(
+			db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).get(url),
+		);
+		if (!entry) {
+			return null;
+		}
+		if (entry.key !== key) {
+			await request(db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME).delete(url));
+			return null;
+		}
+		return {
+			irradiance: createTextureFromData(device, entry.irradiance),
+			prefilter: createTextureFromData(device, entry.prefilter),
+			brdf: createTextureFromData(device, entry.brdf),
+		};
+	} finally {
+		db.close();
+	}
+}
+
+/**
+ * Reads the maps back from the gpu and caches them for the source, replacing any previous entry
+ */
+export async function storeSkyCache(device: GPUDevice, url: string, key: string, maps: SkyLightingMaps) {
+	// read one after another, to keep only one texture's staging buffers around at a time
+	const entry: SkyCacheEntry = {
+		key: key,
+		irradiance: await readTexture(device, maps.irradiance),
+		prefilter: await readTexture(device, maps.prefilter),
+		brdf: await readTexture(device, maps.brdf),
+	};
+	const db = await openDatabase();
+	try {
+		await request(db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME).put(entry, url));
+	} finally {
+		db.close();
+	}
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+	const open = indexedDB.open(DB_NAME, 1);
+	open.onupgradeneeded = () => open.result.createObjectStore(STORE_NAME);
+	return request(open);
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		req.onsuccess = () => resolve(req.result);
+		req.onerror = () => reject(req.error);
+	});
+}
@@ -0,0 +1,178 @@
+import type { Shaders } from "./Shaders";
+
+/**
+ * @returns the number of mip levels down to 1x1 for a texture of the given size
+ */
+export function mipLevelCount(width: number, height: number): number {
+	return Math.floor(Math.log2(Math.max(width, height, 1))) + 1;
+}
+
+/**
+ * Loads images into GPU textures and generates their mipmaps
+ */
+export default class TextureLoader {
+	private readonly device: GPUDevice;
+	private readonly module: GPUShaderModule;
+	private readonly sampler: GPUSampler;
+	// mipmap pipelines are specific to the render target format, so they're created as formats are needed
+	private readonly pipelines = new Map<GPUTextureFormat, GPURenderPipeline>();
+
+	constructor(device: GPUDevice, shaders: Shaders) {
+		this.device = device;
+		this.module = shaders.mipmapGenerator;
+		this.sampler = device.createSampler({
+			label: "mipmap generator sampler",
+			minFilter: "linear",
+			magFilter: "linear",
+		});
+	}
+
+	/**
+	 * Loads an image into a texture with a full mip chain
+	 * @param format the texture format, an sRGB format for color data
+	 */
+	public async load(url: string, format: GPUTextureFormat): Promise<GPUTexture> {
+		const response = await fetch(url);
+		if (!response.ok) {
+			throw new Error(`Failed to load texture: ${url}. Server responded with status ${response.status}.`);
+		}
+		return this.loadBlob(await response.blob(), url, format);
+	}
+
+	/**
+	 * Decodes an image into a texture with a full mip chain
+	 * @param format the texture format, an sRGB format for color data
+	 * @param channel only copy this channel of the image, into the first channel of the texture
+	 */
+	public async loadBlob(blob: Blob, label: string, format: GPUTextureFormat, channel?: number): Promise<GPUTexture> {
+		const image = await createImageBitmap(blob, { colorSpaceConversion: "none", premultiplyAlpha: "none" });
+
+		const texture = this.device.createTexture({
+			label: `texture ${label}`,
+			size: [image.width, image.height],
+			format: format,
+			mipLevelCount: mipLevelCount(image.width, image.height),
+			usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST | GPUTextureUsage.RENDER_ATTACHMENT,
+		});
+		if (channel === undefined) {
+			// flipped so uv (0, 0) is the bottom left of the image, as with the previous WebGL loader
+			this.device.queue.copyExternalImageToTexture({ source: image, flipY: true }, { texture: texture }, [
+				image.width,
+				image.height,
+			]);
+		} else {
+			this.writeChannel(image, texture, channel);
+		}
+		image.close();
+
+		this.generateMipmaps(texture);
+		return texture;
+	}
+
+	/**
+	 * Creates a 1x1 texture of a single color, used in place of missing maps
+	 * @param color rgba, 0 to 255
+	 */
+	public createSolid(label: string, color: [number, number, number, number]): GPUTexture {
+		const texture = this.device.createTexture({
+			label: label,
+			size: [1, 1],
+			format: "rgba8unorm",
+			usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST,
+		});
+		this.device.queue.writeTexture({ texture: texture }, new Uint8Array(color), { bytesPerRow: 4 }, [1, 1]);
+		return texture;
+	}
+
+	/**
+	 * Fills mip levels 1 and up by repeatedly downsampling the level above
+	 */
+	public generateMipmaps(texture: GPUTexture) {
+		if (texture.mipLevelCount <= 1) {
+			return;
+		}
+		const pipeline = this.pipeline(texture.format);
+		const encoder = this.device.createCommandEncoder({ label: "mipmap generator encoder" });
+		for (let level = 1; level < texture.mipLevelCount; level++) {
+			const bindGroup = this.device.createBindGroup({
+				layout: pipeline.getBindGroupLayout(0),
+				entries: [
+					{
+						binding: 0,
+						resource: this.sampler,
+					},
+					{
+						binding: 1,
+						resource: texture.createView({ baseMipLevel: level - 1, mipLevelCount: 1 }),
+					},
+				],
+			});
+			const pass = encoder.beginRenderPass({
+				label: `mipmap level ${level}`,
+				colorAttachments: [
+					{
+						view: texture.createView({ baseMipLevel: level, mipLevelCount: 1 }),
+						loadOp: "clear",
+						storeOp: "store",
+					},
+				],
+			});
+			pass.setPipeline(pipeline);
+			pass.setBindGroup(0, bindGroup);
+			pass.draw(3);
+			pass.end();
+		}
+		this.device.queue.submit([encoder.finish()]);
+	}
+
+	/**
+	 * Copies one channel of the image into a single channel texture. External image copies keep the channels in
+	 * place, so the channel is read back through a canvas instead.
+	 */
+	private writeChannel(image: ImageBitmap, texture: GPUTexture, channel: number) {
+		const canvas = new OffscreenCanvas(image.width, image.height);
+		const ctx = canvas.getContext("2d");
+		if (!ctx) {
+			throw new Error("Failed to create a 2d canvas context");
+		}
+		ctx.drawImage(image, 0, 0);
+		const pixels = ctx.getImageData(0, 0, image.width, image.height).data;
+
+		// flipped to match copyExternalImageToTexture's flipY
+		const data = new Uint8Array(image.width * image.height);
+		for (let y = 0; y < image.height; y++) {
+			const row = (image.height - 1 - y) * image.width;
+			for (let x = 0; x < image.width; x++) {
+				data[row + x] = pixels[(y * image.width + x) * 4 + channel];
+			}
+		}
+		this.device.queue.writeTexture({ texture: texture }, data, { bytesPerRow: image.width }, [
+			image.width,
+			image.height,
+		]);
+	}
+
+	private pipeline(format: GPUTextureFormat): GPURenderPipeline {
+		let pipeline = this.pipelines.get(format);
+		if (!pipeline) {
+			pipeline = this.device.createRenderPipeline({
+				label: `mipmap generator pipeline ${format}`,
+				layout: "auto",
+				vertex: {
+					module: this.module,
+					entryPoint: "vs",
+				},
+				fragment: {
+					module: this.module,
+					entryPoint: "fs",
+					targets: [{ format: format }],
+				},
+				primitive: {
+					topology: "triangle-list",
+				},
+			});
+			this.pipelines.set(format, pipeline);
+		}
+		return pipeline;
+	}
+}
@@ -3,13 +3,12 @@ import type Camera from "./Camera";
 
 export default class Transform {
 	public position = vec3.create();
-	public rotation = vec3.create();
+	public rotation = quat.identity();
 	public scale = vec3.fromValues(1, 1, 1);
 
 	public readonly matrix = mat4.create();
 	public readonly normalMatrix = mat3.create();
 
-	private readonly quaternion = quat.create();
 	private readonly rotationMatrix = mat4.create();
 	private readonly normalMatrix4 = mat4.create();
 
@@ -18,10 +17,9 @@ export default class Transform {
 	}
 
 	public update(camera: Camera) {
-		quat.fromEuler(this.rotation[0], this.rotation[1], this.rotation[2], "xyz", this.quaternion);
 		mat4.identity(this.matrix);
 		mat4.translation(this.position, this.matrix);
-		mat4.fromQuat(this.quaternion, this.rotationMatrix);
+		mat4.fromQuat(this.rotation, this.rotationMatrix);
 		mat4.multiply(this.matrix, this.rotationMatrix, this.matrix);
 		mat4.scale(this.matrix, this.scale, this.matrix);
 		
@@ -0,0 +1,121 @@
+// scene brightness bloom starts at, faded in over the threshold's lower half
+override threshold: f32 = 1.0;
+
+@group(0) @binding(0) var u_sampler: sampler;
+// the level being downsampled, or the smaller level being upsampled
+@group(0) @binding(1) var u_source: texture_2d<f32>;
+@group(0) @binding(2) var u_output: texture_storage_2d<rgba16float, write>;
+// the downsampled level the upsampled one is added to
+@group(0) @binding(3) var u_detail: texture_2d<f32>;
+
+struct ComputeIn {
+    @builtin(global_invocation_id) id: vec3<u32>,
+};
+
+// the 13 taps of the downsample filter, 4 overlapping 2x2 boxes around the center and one inside it. Offsets are in
+// source texels, the linear sampler averages the 2x2 texels around each tap.
+struct DownsampleTaps {
+    a: vec3<f32>, b: vec3<f32>, c: vec3<f32>,
+    d: vec3<f32>, e: vec3<f32>, f: vec3<f32>,
+    g: vec3<f32>, h: vec3<f32>, i: vec3<f32>,
+    j: vec3<f32>, k: vec3<f32>,
+    l: vec3<f32>, m: vec3<f32>,
+}
+
+fn downsample_taps(uv: vec2<f32>) -> DownsampleTaps {
+    let texel: vec2<f32> = 1.0 / vec2<f32>(textureDimensions(u_source).xy);
+    var taps: DownsampleTaps;
+    taps.a = textureSampleLevel(u_source, u_sampler, uv + texel * vec2<f32>(-2.0, -2.0), 0.0).rgb;
+    taps.b = textureSampleLevel(u_source, u_sampler, uv + texel * vec2<f32>(0.0, -2.0), 0.0).rgb;
+    taps.c = textureSampleLevel(u_source, u_sampler, uv + texel * vec2<f32>(2.0, -2.0), 0.0).rgb;
+    taps.d = textureSampleLevel(u_source, u_sampler, uv + texel * vec2<f32>(-2.0, 0.0), 0.0).rgb;
+    taps.e = textureSampleLevel(u_source, u_sampler, uv, 0.0).rgb;
+    taps.f = textureSampleLevel(u_source, u_sampler, uv + texel * vec2<f32>(2.0, 0.0), 0.0).rgb;
+    taps.g = textureSampleLevel(u_source, u_sampler, uv + texel * vec2<f32>(-2.0, 2.0), 0.0).rgb;
+    taps.h = textureSampleLevel(u_source, u_sampler, uv + texel * vec2<f32>(0.0, 2.0), 0.0).rgb;
+    taps.i = textureSampleLevel(u_source, u_sampler, uv + texel * vec2<f32>(2.0, 2.0), 0.0).rgb;
+    taps.j = textureSampleLevel(u_source, u_sampler, uv + texel * vec2<f32>(-1.0, -1.0), 0.0).rgb;
+    taps.k = textureSampleLevel(u_source, u_sampler, uv + texel * vec2<f32>(1.0, -1.0), 0.0).rgb;
+    taps.l = textureSampleLevel(u_source, u_sampler, uv + texel * vec2<f32>(-1.0, 1.0), 0.0).rgb;
+    taps.m = textureSampleLevel(u_source, u_sampler, uv + texel * vec2<f32>(1.0, 1.0), 0.0).rgb;
+    return taps;
+}
+
+fn output_uv(id: vec2<u32>) -> vec2<f32> {
+    return (vec2<f32>(id) + 0.5) / vec2<f32>(textureDimensions(u_output).xy);
+}
+
+fn in_output(id: vec2<u32>) -> bool {
+    return all(id < textureDimensions(u_output).xy);
+}
+
+// average of the box, weighted towards its dimmer texels so single bright pixels don't flicker as they move
+fn karis_average(a: vec3<f32>, b: vec3<f32>, c: vec3<f32>, d: vec3<f32>) -> vec3<f32> {
+    let weights: vec4<f32> = 1.0 / (1.0 + vec4<f32>(luminance(a), luminance(b), luminance(c), luminance(d)));
+    let sum: vec3<f32> = a * weights.x + b * weights.y + c * weights.z + d * weights.w;
+    return sum / dot(weights, vec4<f32>(1.0));
+}
+
+fn luminance(color: vec3<f32>) -> f32 {
+    return dot(color, vec3<f32>(0.2126, 0.7152, 0.0722));
+}
+
+// keeps the brightness above the threshold, with a quadratic falloff below it rather than a hard cut
+fn apply_threshold(color: vec3<f32>) -> vec3<f32> {
+    let brightness: f32 = max(color.r, max(color.g, color.b));
+    let knee: f32 = threshold * 0.5;
+    var soft: f32 = clamp(brightness - threshold + knee, 0.0, 2.0 * knee);
+    soft = soft * soft / (4.0 * knee + 0.0001);
+    let contribution: f32 = max(soft, brightness - threshold) / max(brightness, 0.0001);
+    return color * contribution;
+}
+
+// first level of the chain, downsampled from the scene with the karis average and threshold
+@compute @workgroup_size(8, 8)
+fn compute_prefilter(in: ComputeIn) {
+    if (!in_output(in.id.xy)) {
+        return;
+    }
+    let t: DownsampleTaps = downsample_taps(output_uv(in.id.xy));
+    var color: vec3<f32> = karis_average(t.j, t.k, t.l, t.m) * 0.5;
+    color += karis_average(t.a, t.b, t.d, t.e) * 0.125;
+    color += karis_average(t.b, t.c, t.e, t.f) * 0.125;
+    color += karis_average(t.d, t.e, t.g, t.h) * 0.125;
+    color += karis_average(t.e, t.f, t.h, t.i) * 0.125;
+    textureStore(u_output, in.id.xy, vec4<f32>(apply_threshold(color), 1.0));
+}
+
+@compute @workgroup_size(8, 8)
+fn compute_downsample(in: ComputeIn) {
+    if (!in_output(in.id.xy)) {
+        return;
+    }
+    let t: DownsampleTaps = downsample_taps(output_uv(in.id.xy));
+    var color: vec3<f32> = t.e * 0.125;
+    color += (t.a + t.c + t.g + t.i) * 0.03125;
+    color += (t.b + t.d + t.f + t.h) * 0.0625;
+    color += (t.j + t.k + t.l + t.m) * 0.125;
+    textureStore(u_output, in.id.xy, vec4<f32>(color, 1.0));
+}
+
+// 3x3 tent filter of the smaller level, added to the downsampled level of the output's size
+@compute @workgroup_size(8, 8)
+fn compute_upsample(in: ComputeIn) {
+    if (!in_output(in.id.xy)) {
+        return;
+    }
+    let uv: vec2<f32> = output_uv(in.id.xy);
+    let texel: vec2<f32> = 1.0 / vec2<f32>(textureDimensions(u_source).xy);
+    var color: vec3<f32> = textureSampleLevel(u_source, u_sampler, uv, 0.0).rgb * 4.0;
+    color += textureSampleLevel(u_source, u_sampler, uv + texel * vec2<f32>(-1.0, 0.0), 0.0).rgb * 2.0;
+    color += textureSampleLevel(u_source, u_sampler, uv + texel * vec2<f32>(1.0, 0.0), 0.0).rgb * 2.0;
+    color += textureSampleLevel(u_source, u_sampler, uv + texel * vec2<f32>(0.0, -1.0), 0.0).rgb * 2.0;
+    color += textureSampleLevel(u_source, u_sampler, uv + texel * vec2<f32>(0.0, 1.0), 0.0).rgb * 2.0;
+    color += textureSampleLevel(u_source, u_sampler, uv + texel * vec2<f32>(-1.0, -1.0), 0.0).rgb;
+    color += textureSampleLevel(u_source, u_sampler, uv + texel * vec2<f32>(1.0, -1.0), 0.0).rgb;
+    color += textureSampleLevel(u_source, u_sampler, uv + texel * vec2<f32>(-1.0, 1.0), 0.0).rgb;
+    color += textureSampleLevel(u_source, u_sampler, uv + texel * vec2<f32>(1.0, 1.0), 0.0).rgb;
+    color /= 16.0;
+    color += textureSampleLevel(u_detail, u_sampler, uv, 0.0).rgb;
+    textureStore(u_output, in.id.xy, vec4<f32>(color, 1.0));
+}
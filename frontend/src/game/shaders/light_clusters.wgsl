@@ -0,0 +1,84 @@
+override max_cluster_lights: u32;
+
+struct CameraData {
+    view_matrix: mat4x4<f32>,
+    proj_matrix: mat4x4<f32>,
+}
+@group(0) @binding(0) var<uniform> u_camera: CameraData;
+struct CameraInverseData {
+    proj_inverse: mat4x4<f32>,
+}
+@group(0) @binding(1) var<uniform> u_camera_inverse: CameraInverseData;
+
+// type is 0 for point lights and 1 for spot lights, the cone angles are stored as cosines
+struct Light {
+    position: vec3<f32>,
+    range: f32,
+    color: vec3<f32>,
+    intensity: f32,
+    direction: vec3<f32>,
+    light_type: u32,
+    cos_inner: f32,
+    cos_outer: f32,
+}
+@group(1) @binding(0) var<storage, read> u_lights: array<Light>;
+// per cluster, the light count followed by max_cluster_lights light indices
+@group(1) @binding(1) var<storage, read_write> u_cluster_lights: array<u32>;
+struct ClusterData {
+    size: vec3<u32>,
+    light_count: u32,
+    near: f32,
+    far: f32,
+}
+@group(1) @binding(2) var<uniform> u_clusters: ClusterData;
+
+struct ComputeIn {
+    @builtin(global_invocation_id) id: vec3<u32>,
+};
+
+// view space point on the ray through the ndc position, at the given distance along the view direction
+fn view_point(ndc: vec2<f32>, depth: f32) -> vec3<f32> {
+    let p: vec4<f32> = u_camera_inverse.proj_inverse * vec4<f32>(ndc, 1.0, 1.0);
+    let ray: vec3<f32> = p.xyz / p.w;
+    return ray * (depth / -ray.z);
+}
+
+// bins the lights into clusters, tiles of the screen split into exponentially deeper depth slices
+@compute @workgroup_size(4, 4, 4)
+fn compute_clusters(in: ComputeIn) {
+    if (any(in.id >= u_clusters.size)) {
+        return;
+    }
+
+    // the cluster's view space bounds
+    let tile_size: vec2<f32> = 2.0 / vec2<f32>(u_clusters.size.xy);
+    let ndc_min: vec2<f32> = vec2<f32>(-1.0 + f32(in.id.x) * tile_size.x, 1.0 - f32(in.id.y + 1u) * tile_size.y);
+    let ndc_max: vec2<f32> = ndc_min + tile_size;
+    let depth_ratio: f32 = u_clusters.far / u_clusters.near;
+    let slice_near: f32 = u_clusters.near * pow(depth_ratio, f32(in.id.z) / f32(u_clusters.size.z));
+    let slice_far: f32 = u_clusters.near * pow(depth_ratio, f32(in.id.z + 1u) / f32(u_clusters.size.z));
+    var bounds_min: vec3<f32> = vec3<f32>(1e30);
+    var bounds_max: vec3<f32> = vec3<f32>(-1e30);
+    for (var corner: u32 = 0u; corner < 8u; corner++) {
+        let ndc: vec2<f32> = select(ndc_min, ndc_max, vec2<bool>((corner & 1u) != 0u, (corner & 2u) != 0u));
+        let p: vec3<f32> = view_point(ndc, select(slice_near, slice_far, (corner & 4u) != 0u));
+        bounds_min = min(bounds_min, p);
+        bounds_max = max(bounds_max, p);
+    }
+
+    let cluster: u32 = (in.id.z * u_clusters.size.y + in.id.y) * u_clusters.size.x + in.id.x;
+    let offset: u32 = cluster * (max_cluster_lights + 1u);
+    var count: u32 = 0u;
+    for (var i: u32 = 0u; i < u_clusters.light_count && count < max_cluster_lights; i++) {
+        // spot lights are tested by their range as well, the cone is only applied when shading
+        let light: Light = u_lights[i];
+        let center: vec3<f32> = (u_camera.view_matrix * vec4<f32>(light.position, 1.0)).xyz;
+        let closest: vec3<f32> = clamp(center, bounds_min, bounds_max);
+        let offset_to_light: vec3<f32> = closest - center;
+        if (dot(offset_to_light, offset_to_light) <= light.range * light.range) {
+            u_cluster_lights[offset + 1u + count] = i;
+            count++;
+        }
+    }
+    u_cluster_lights[offset] = count;
+}
@@ -0,0 +1,24 @@
+@group(0) @binding(0) var u_sampler: sampler;
+@group(0) @binding(1) var u_texture: texture_2d<f32>;
+
+struct VertexOut {
+    @builtin(position) pos: vec4<f32>,
+    @location(0) uv: vec2<f32>,
+};
+
+// fullscreen triangle, no vertex buffer needed
+@vertex
+fn vs(@builtin(vertex_index) index: u32) -> VertexOut {
+    let uv: vec2<f32> = vec2<f32>(f32((index << 1u) & 2u), f32(index & 2u));
+
+    var out: VertexOut;
+    out.pos = vec4<f32>(uv * vec2<f32>(2.0, -2.0) + vec2<f32>(-1.0, 1.0), 0.0, 1.0);
+    out.uv = uv;
+    return out;
+}
+
+// the linear sampler averages the 2x2 texels of the previous mip level
+@fragment
+fn fs(in: VertexOut) -> @location(0) vec4<f32> {
+    return textureSample(u_texture, u_sampler, in.uv);
+}
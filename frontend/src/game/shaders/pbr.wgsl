@@ -5,6 +5,7 @@ override shadow_fade_distance: f32;
 override fog_start: f32;
 override fog_end: f32;
 override fog_mip_level: f32;
+override max_cluster_lights: u32;
 
 struct CameraData {
     view_matrix: mat4x4<f32>,
@@ -36,6 +37,29 @@ struct TransformData {
 }
 @group(1) @binding(0) var<uniform> u_transform: TransformData;
 
+// metallic, roughness and ao are used where the model has no map, flagged in maps
+struct MaterialData {
+    base_color: vec4<f32>,
+    emissive: vec3<f32>,
+    metallic: f32,
+    roughness: f32,
+    ao: f32,
+    maps: u32,
+}
+@group(1) @binding(1) var<uniform> u_material: MaterialData;
+@group(1) @binding(2) var u_material_sampler: sampler;
+@group(1) @binding(3) var u_albedo_map: texture_2d<f32>;
+// only applied to models with vertex tangents
+@group(1) @binding(4) var u_normal_map: texture_2d<f32>;
+@group(1) @binding(5) var u_metallic_map: texture_2d<f32>;
+@group(1) @binding(6) var u_roughness_map: texture_2d<f32>;
+@group(1) @binding(7) var u_ao_map: texture_2d<f32>;
+const MAP_ALBEDO: u32 = 1u;
+const MAP_NORMAL: u32 = 2u;
+const MAP_METALLIC: u32 = 4u;
+const MAP_ROUGHNESS: u32 = 8u;
+const MAP_AO: u32 = 16u;
+
 @group(2) @binding(0) var u_depth_sampler: sampler;
 @group(2) @binding(1) var u_shadowmap: texture_depth_2d_array;
 @group(2) @binding(2) var<uniform> u_screen_size: vec2<f32>;
@@ -53,6 +77,28 @@ struct LightingData {
 @group(3) @binding(8) var u_shadowmap_sampler_comparison: sampler_comparison;
 @group(3) @binding(9) var u_shadowmap_sampler: sampler;
 @group(3) @binding(10) var<uniform> u_shadowmap_kernel:  array<vec4<f32>, TEMPL_shadow_kernel_size>;
+// type is 0 for point lights and 1 for spot lights, the cone angles are stored as cosines
+struct Light {
+    position: vec3<f32>,
+    range: f32,
+    color: vec3<f32>,
+    intensity: f32,
+    direction: vec3<f32>,
+    light_type: u32,
+    cos_inner: f32,
+    cos_outer: f32,
+}
+const LIGHT_SPOT: u32 = 1u;
+@group(3) @binding(11) var<storage, read> u_lights: array<Light>;
+// per cluster, the light count followed by max_cluster_lights light indices
+@group(3) @binding(12) var<storage, read> u_cluster_lights: array<u32>;
+struct ClusterData {
+    size: vec3<u32>,
+    light_count: u32,
+    near: f32,
+    far: f32,
+}
+@group(3) @binding(13) var<uniform> u_clusters: ClusterData;
 
 struct VertexIn { 
     @location(0) vertex_xyzc: vec2<u32>,
@@ -60,6 +106,13 @@ struct VertexIn {
     @location(2) vertex_uv: u32,
 };
 
+struct VertexTangentIn {
+    @location(0) vertex_xyzc: vec2<u32>,
+    @location(1) vertex_normal: u32,
+    @location(2) vertex_uv: u32,
+    @location(3) vertex_tangent: u32,
+};
+
 struct VertexOut {
     @builtin(position) pos: vec4<f32>,
     @location(0) world_pos: vec3<f32>,
@@ -73,6 +126,8 @@ struct VertexOut {
     @location(8) shadow_clip_pos_0: vec4<f32>,
     @location(9) shadow_clip_pos_1: vec4<f32>,
     @location(10) shadow_clip_pos_2: vec4<f32>,
+    // world space tangent and bitangent sign, zero without vertex tangents
+    @location(11) tangent: vec4<f32>,
 };
 
 struct FragmentOut {
@@ -82,6 +137,22 @@ struct FragmentOut {
 
 @vertex 
 fn vs(in: VertexIn) -> VertexOut {
+    return vertex(in);
+}
+
+@vertex
+fn vs_tangent(in: VertexTangentIn) -> VertexOut {
+    var out: VertexOut = vertex(VertexIn(in.vertex_xyzc, in.vertex_normal, in.vertex_uv));
+
+    let tx: f32 = f32(in.vertex_tangent >> 22u) / 511.5 - 1.0;
+    let ty: f32 = f32((in.vertex_tangent >> 12u) & 0x3FFu) / 511.5 - 1.0;
+    let tz: f32 = f32((in.vertex_tangent >> 2u) & 0x3FFu) / 511.5 - 1.0;
+    let handedness: f32 = select(1.0, -1.0, (in.vertex_tangent & 1u) != 0u);
+    out.tangent = vec4<f32>((u_transform.model_matrix * vec4<f32>(tx, ty, tz, 0.0)).xyz, handedness);
+    return out;
+}
+
+fn vertex(in: VertexIn) -> VertexOut {
     let x: f32 = f32(in.vertex_xyzc.x >> 16u) / 65535.0 - 0.5;
     let y: f32 = f32(in.vertex_xyzc.x & 0xFFFFu) / 65535.0 - 0.5;
     let z: f32 = f32(in.vertex_xyzc.y >> 16u) / 65535.0 - 0.5;
@@ -121,6 +192,7 @@ fn vs(in: VertexIn) -> VertexOut {
     out.shadow_clip_pos_0 = shadow_clip_pos_0;
     out.shadow_clip_pos_1 = shadow_clip_pos_1;
     out.shadow_clip_pos_2 = shadow_clip_pos_2;
+    out.tangent = vec4<f32>(0.0);
     return out;
 }
 
@@ -237,10 +309,17 @@ fn visualize_cascades(in: VertexOut) -> vec3<f32> {
 
 @fragment 
 fn fs(in: VertexOut) -> FragmentOut {
-    let n = normalize(in.normal);
-    let rough: f32 = 1.0;
-    let metal: f32 = 0.0;
-    let albedo: vec3<f32> = in.color;
+    // material, sampled unconditionally to keep the texture sampling in uniform control flow
+    let normal_sample: vec3<f32> = textureSample(u_normal_map, u_material_sampler, in.uv).rgb;
+    let albedo_sample: vec3<f32> = textureSample(u_albedo_map, u_material_sampler, in.uv).rgb;
+    let metallic_sample: f32 = textureSample(u_metallic_map, u_material_sampler, in.uv).r;
+    let roughness_sample: f32 = textureSample(u_roughness_map, u_material_sampler, in.uv).r;
+    let ao_sample: f32 = textureSample(u_ao_map, u_material_sampler, in.uv).r;
+    let albedo: vec3<f32> = select(in.color, albedo_sample, has_map(MAP_ALBEDO)) * u_material.base_color.rgb;
+    let metal: f32 = select(u_material.metallic, metallic_sample, has_map(MAP_METALLIC));
+    let rough: f32 = select(u_material.roughness, roughness_sample, has_map(MAP_ROUGHNESS));
+    let ao: f32 = select(u_material.ao, ao_sample, has_map(MAP_AO));
+    let n: vec3<f32> = surface_normal(in, normal_sample);
 
     let l_o: vec3<f32> = normalize(u_global.camera_position - in.world_pos);
 
@@ -250,24 +329,13 @@ fn fs(in: VertexOut) -> FragmentOut {
     let f_0: vec3<f32> = mix(vec3<f32>(0.04), albedo, metal);
     var light: vec3<f32> = vec3<f32>(0.0);
 
-    var directional: vec3<f32>; {
-        let l_i: vec3<f32> = normalize(u_lighting.sun_direction);
-        let l_radiance: vec3<f32> = u_lighting.sun_color.rgb * u_lighting.sun_color.a;
-
-        let l_half: vec3<f32> = normalize(l_i + l_o);
-        let cos_li: f32 = max(dot(n, l_i), 0.0);
-        let cos_lh: f32 = max(dot(n, l_half), 0.0);
+    // scene lighting, sampled before the cluster light loop leaves uniform control flow
+    let irradiance: vec3<f32> = textureSample(u_irradiance, u_scene_sampler, n).rgb;
+    let brdf: vec2<f32> = textureSample(u_brdf, u_scene_sampler, vec2<f32>(cos_lo, rough)).rg;
+    let ssao_sample: f32 = textureSample(u_ssao, u_scene_sampler, in.pos.xy / u_screen_size).r;
 
-        let f: vec3<f32> = fresnel_schlick(max(0.0, dot(l_half, l_o)), f_0, rough);
-        let d: f32 = ndf_ggx(cos_lh, rough);
-        let g: f32 = geom_schlick_ggx(cos_li, cos_lo, rough);
-
-        let k_d: vec3<f32> = mix(vec3<f32>(1.0) - f, vec3<f32>(0.0), metal);
-        let diffuse_brdf: vec3<f32> = k_d * albedo;
-        let specular_brdf: vec3<f32> = f * d * g / (4.0 * max(0.0001, cos_lo * cos_li));
-
-        directional = l_radiance * cos_li * (diffuse_brdf + specular_brdf);
-    }
+    let sun_radiance: vec3<f32> = u_lighting.sun_color.rgb * u_lighting.sun_color.a;
+    let directional: vec3<f32> = direct_light(normalize(u_lighting.sun_direction), sun_radiance, n, l_o, cos_lo, albedo, metal, rough, f_0);
 
     // shadows
     let view_depth = abs(in.view_pos.z);
@@ -296,22 +364,41 @@ fn fs(in: VertexOut) -> FragmentOut {
 
     light += directional * (1.0 - shadow_factor);
 
+    // point and spot lights in the fragment's cluster
+    let cluster_light_offset: u32 = cluster_index(in.pos.xy, view_depth) * (max_cluster_lights + 1u);
+    let cluster_light_count: u32 = min(u_cluster_lights[cluster_light_offset], max_cluster_lights);
+    for (var i: u32 = 0u; i < cluster_light_count; i++) {
+        let point_light: Light = u_lights[u_cluster_lights[cluster_light_offset + 1u + i]];
+        let to_light: vec3<f32> = point_light.position - in.world_pos;
+        let dist: f32 = length(to_light);
+        if (dist >= point_light.range) {
+            continue;
+        }
+        let l_i: vec3<f32> = to_light / max(dist, 0.0001);
+        // inverse square falloff, windowed to reach zero at the light's range
+        let window: f32 = saturate(1.0 - pow(dist / point_light.range, 4.0));
+        var attenuation: f32 = window * window / (dist * dist + 1.0);
+        if (point_light.light_type == LIGHT_SPOT) {
+            attenuation *= smoothstep(point_light.cos_outer, point_light.cos_inner, dot(-l_i, point_light.direction));
+        }
+        let l_radiance: vec3<f32> = point_light.color * point_light.intensity * attenuation;
+        light += direct_light(l_i, l_radiance, n, l_o, cos_lo, albedo, metal, rough, f_0);
+    }
+
     var ambient: vec3<f32>; {
-        let irradiance: vec3<f32> = textureSample(u_irradiance, u_scene_sampler, n).rgb;
-        
         let f: vec3<f32> = fresnel_schlick(cos_lo, f_0, rough);
         let k_d: vec3<f32> = mix(vec3<f32>(1.0) - f, vec3<f32>(0.0), metal);
         let diffuse: vec3<f32> = k_d * irradiance * albedo;
 
         let specular_irradiance: vec3<f32> = textureSampleLevel(u_prefilter, u_scene_sampler, l_r, rough * 4.0).rgb;
-        let brdf: vec2<f32> = textureSample(u_brdf, u_scene_sampler, vec2<f32>(cos_lo, rough)).rg;
         let specular: vec3<f32> = specular_irradiance * (f_0 * brdf.x + brdf.y);
-        ambient = diffuse + specular;
+        ambient = (diffuse + specular) * ao;
     }
 
     // SSAO
-    let occlusion: f32 = 1.0 - textureSample(u_ssao, u_scene_sampler, in.pos.xy / u_screen_size).r;
+    let occlusion: f32 = 1.0 - ssao_sample;
     light += ambient;
+    light += u_material.emissive;
 
 
     var color: vec3<f32> = light;
@@ -344,6 +431,58 @@ fn fs(in: VertexOut) -> FragmentOut {
     return out;
 }
 
+// cook-torrance brdf for light arriving from direction l_i
+fn direct_light(
+    l_i: vec3<f32>,
+    l_radiance: vec3<f32>,
+    n: vec3<f32>,
+    l_o: vec3<f32>,
+    cos_lo: f32,
+    albedo: vec3<f32>,
+    metal: f32,
+    rough: f32,
+    f_0: vec3<f32>,
+) -> vec3<f32> {
+    let l_half: vec3<f32> = normalize(l_i + l_o);
+    let cos_li: f32 = max(dot(n, l_i), 0.0);
+    let cos_lh: f32 = max(dot(n, l_half), 0.0);
+
+    let f: vec3<f32> = fresnel_schlick(max(0.0, dot(l_half, l_o)), f_0, rough);
+    let d: f32 = ndf_ggx(cos_lh, rough);
+    let g: f32 = geom_schlick_ggx(cos_li, cos_lo, rough);
+
+    let k_d: vec3<f32> = mix(vec3<f32>(1.0) - f, vec3<f32>(0.0), metal);
+    let diffuse_brdf: vec3<f32> = k_d * albedo;
+    let specular_brdf: vec3<f32> = f * d * g / (4.0 * max(0.0001, cos_lo * cos_li));
+
+    return l_radiance * cos_li * (diffuse_brdf + specular_brdf);
+}
+
+// the cluster containing the fragment, matching the slices light_clusters.wgsl bins the lights into
+fn cluster_index(frag_pos: vec2<f32>, view_depth: f32) -> u32 {
+    let tile: vec2<u32> = min(vec2<u32>(frag_pos / u_screen_size * vec2<f32>(u_clusters.size.xy)), u_clusters.size.xy - 1u);
+    let slice_f: f32 = log(max(view_depth, u_clusters.near) / u_clusters.near) / log(u_clusters.far / u_clusters.near);
+    let slice: u32 = min(u32(slice_f * f32(u_clusters.size.z)), u_clusters.size.z - 1u);
+    return (slice * u_clusters.size.y + tile.y) * u_clusters.size.x + tile.x;
+}
+
+fn has_map(map: u32) -> bool {
+    return (u_material.maps & map) != 0u;
+}
+
+// perturbs the interpolated normal by the tangent space normal map, if the model has both
+fn surface_normal(in: VertexOut, normal_sample: vec3<f32>) -> vec3<f32> {
+    let n: vec3<f32> = normalize(in.normal);
+    if (!has_map(MAP_NORMAL) || in.tangent.w == 0.0) {
+        return n;
+    }
+    // re-orthogonalize, the interpolated tangent drifts from the normal
+    let t: vec3<f32> = normalize(in.tangent.xyz - n * dot(n, in.tangent.xyz));
+    let b: vec3<f32> = cross(n, t) * select(1.0, -1.0, in.tangent.w < 0.0);
+    let tangent_normal: vec3<f32> = normal_sample * 2.0 - 1.0;
+    return normalize(mat3x3<f32>(t, b, n) * tangent_normal);
+}
+
 fn ndf_ggx(cos_lh: f32, r: f32) -> f32 {
 	let alpha: f32 = r * r;
 	let alpha_sq: f32 = alpha * alpha;
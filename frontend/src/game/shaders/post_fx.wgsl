@@ -4,9 +4,12 @@ override tint: f32 = 0.1;
 override contrast: f32 = 1.0;
 override brightness: f32 = 0.0;
 override gamma: f32 = 2.2;
+override bloom_intensity: f32 = 0.05;
 
 @group(0) @binding(0) var color_sampler: sampler;
 @group(0) @binding(1) var color_texture: texture_2d<f32>;
+// the upsampled bloom chain, at half the scene resolution
+@group(0) @binding(2) var bloom_texture: texture_2d<f32>;
 
 struct VertexOut {
     @builtin(position) pos: vec4f,
@@ -24,7 +27,10 @@ fn vs(@location(0) pos: vec2f) -> VertexOut {
 
 @fragment 
 fn fs(in: VertexOut) -> @location(0) vec4f {
-    var color: vec3f = textureSample(color_texture, color_sampler, in.uv).rgb;
+    // the scene may be drawn at a lower resolution than the screen
+    var color: vec3f = sample_catmull_rom(in.uv);
+    // bloom is scene light, added before exposure and tone mapping
+    color += textureSampleLevel(bloom_texture, color_sampler, in.uv, 0.0).rgb * bloom_intensity;
     // float occlusion_factor = texture(depth_map, uv).r;
     // color *= max(1.0, occlusion_factor);
     
@@ -45,6 +51,38 @@ fn fs(in: VertexOut) -> @location(0) vec4f {
     // return vec4<f32>(textureSample(color_texture, color_sampler, in.uv).rgb + color * 0.00001, 1.0);
 }
 
+// bicubic upscale from 9 bilinear taps, sharper than a single one. Texel centers are sampled exactly, so it's a no-op
+// at the screen resolution.
+fn sample_catmull_rom(uv: vec2f) -> vec3f {
+    let size: vec2f = vec2f(textureDimensions(color_texture));
+    let sample_pos: vec2f = uv * size;
+    let tex_pos_1: vec2f = floor(sample_pos - 0.5) + 0.5;
+    let f: vec2f = sample_pos - tex_pos_1;
+
+    let w_0: vec2f = f * (-0.5 + f * (1.0 - 0.5 * f));
+    let w_1: vec2f = 1.0 + f * f * (-2.5 + 1.5 * f);
+    let w_2: vec2f = f * (0.5 + f * (2.0 - 1.5 * f));
+    let w_3: vec2f = f * f * (-0.5 + 0.5 * f);
+    // the middle two taps are merged into one bilinear tap between them
+    let w_12: vec2f = w_1 + w_2;
+    let uv_0: vec2f = (tex_pos_1 - 1.0) / size;
+    let uv_12: vec2f = (tex_pos_1 + w_2 / w_12) / size;
+    let uv_3: vec2f = (tex_pos_1 + 2.0) / size;
+
+    var color: vec3f = vec3f(0.0);
+    color += textureSampleLevel(color_texture, color_sampler, vec2f(uv_0.x, uv_0.y), 0.0).rgb * w_0.x * w_0.y;
+    color += textureSampleLevel(color_texture, color_sampler, vec2f(uv_12.x, uv_0.y), 0.0).rgb * w_12.x * w_0.y;
+    color += textureSampleLevel(color_texture, color_sampler, vec2f(uv_3.x, uv_0.y), 0.0).rgb * w_3.x * w_0.y;
+    color += textureSampleLevel(color_texture, color_sampler, vec2f(uv_0.x, uv_12.y), 0.0).rgb * w_0.x * w_12.y;
+    color += textureSampleLevel(color_texture, color_sampler, vec2f(uv_12.x, uv_12.y), 0.0).rgb * w_12.x * w_12.y;
+    color += textureSampleLevel(color_texture, color_sampler, vec2f(uv_3.x, uv_12.y), 0.0).rgb * w_3.x * w_12.y;
+    color += textureSampleLevel(color_texture, color_sampler, vec2f(uv_0.x, uv_3.y), 0.0).rgb * w_0.x * w_3.y;
+    color += textureSampleLevel(color_texture, color_sampler, vec2f(uv_12.x, uv_3.y), 0.0).rgb * w_12.x * w_3.y;
+    color += textureSampleLevel(color_texture, color_sampler, vec2f(uv_3.x, uv_3.y), 0.0).rgb * w_3.x * w_3.y;
+    // the negative lobes can overshoot below zero at hard edges
+    return max(color, vec3f(0.0));
+}
+
 fn white_balance(color: vec3f) -> vec3f {
     let t1: f32 = temperature * 10.0 / 6.0;
     let t2: f32 = tint * 10.0 / 6.0;
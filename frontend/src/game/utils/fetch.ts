@@ -0,0 +1,40 @@
+/**
+ * Receives the number of bytes loaded so far and the total, which is 0 if the server didn't send the content length
+ */
+export type ProgressCallback = (loaded: number, total: number) => void;
+
+/**
+ * Fetches a file into a buffer, reporting progress as the response streams in.
+ * Throws if the request fails or the server responds with an error status.
+ */
+export async function fetchBuffer(url: string, onProgress?: ProgressCallback): Promise<ArrayBuffer> {
+	const response = await fetch(url);
+	if (!response.ok) {
+		throw new Error(`Failed to load ${url}. Server responded with status ${response.status}.`);
+	}
+	if (!onProgress || !response.body) {
+		return response.arrayBuffer();
+	}
+
+	// compressed responses report the compressed length, so the total is only a hint for the buffer size
+	const total = Number(response.headers.get("Content-Length") ?? 0);
+	const reader = response.body.getReader();
+	let buffer = new Uint8Array(total > 0 ? total : 1 << 16);
+	let loaded = 0;
+	onProgress(0, total);
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) {
+			break;
+		}
+		if (loaded + value.byteLength > buffer.byteLength) {
+			const grown = new Uint8Array(Math.max(buffer.byteLength * 2, loaded + value.byteLength));
+			grown.set(buffer.subarray(0, loaded));
+			buffer = grown;
+		}
+		buffer.set(value, loaded);
+		loaded += value.byteLength;
+		onProgress(loaded, Math.max(total, loaded));
+	}
+	return buffer.buffer.slice(0, loaded);
+}
@@ -1,3 +1,5 @@
+import { fetchBuffer, type ProgressCallback } from "./fetch";
+
 export type HDRData = {
 	width: number;
 	height: number;
@@ -7,37 +9,15 @@ export type HDRData = {
 /**
  * Loads a .hdr file from url.
  */
-export default function loadHDR(url: string, minComponent: number = 1000.0): Promise<HDRData> {
-	return new Promise((resolve, reject) => {
-		const startTime = performance.now();
-		try {
-			fetch(url, {
-				method: "GET",
-				headers: {
-					"Content-Type": "application/octet-stream",
-				},
-			})
-				.then((response) => {
-					if (!response.ok) {
-						reject("Failed to load: " + url);
-					}
-					return response.arrayBuffer();
-				})
-				.then((buffer) => {
-					console.log((performance.now() - startTime).toFixed(2), "ms");
-					try {
-						resolve(read_hdr(new Uint8Array(buffer), minComponent));
-					} catch (e: any) {
-						reject(e.message);
-					}
-				})
-				.catch((e) => {
-					throw new Error(e.message);
-				});
-		} catch (e: any) {
-			reject(e.message);
-		}
-	});
+export default async function loadHDR(
+	url: string,
+	minComponent: number = 1000.0,
+	onProgress?: ProgressCallback,
+): Promise<HDRData> {
+	const startTime = performance.now();
+	const buffer = await fetchBuffer(url, onProgress);
+	console.log((performance.now() - startTime).toFixed(2), "ms");
+	return read_hdr(new Uint8Array(buffer), minComponent);
 }
 
 /**
@@ -0,0 +1,90 @@
+// the textures are all rgba16float
+const BYTES_PER_PIXEL = 8;
+
+/**
+ * The contents of an rgba16float texture on the cpu
+ */
+export type TextureData = {
+	label: string;
+	width: number;
+	height: number;
+	layers: number;
+	// one per mip level, the layers tightly packed one after another
+	levels: Uint8Array[];
+};
+
+/**
+ * Copies every mip level and layer of an rgba16float texture to the cpu. Copies are done one layer at a time, so a
+ * single staging buffer never holds more than one face of a cubemap.
+ */
+export async function readTexture(device: GPUDevice, texture: GPUTexture): Promise<TextureData> {
+	const levels: Uint8Array[] = [];
+	for (let level = 0; level < texture.mipLevelCount; level++) {
+		const width = Math.max(texture.width >> level, 1);
+		const height = Math.max(texture.height >> level, 1);
+		const rowBytes = width * BYTES_PER_PIXEL;
+		// buffer copies need rows aligned to 256 bytes
+		const alignedRowBytes = Math.ceil(rowBytes / 256) * 256;
+		const layerBytes = rowBytes * height;
+		const data = new Uint8Array(layerBytes * texture.depthOrArrayLayers);
+
+		for (let layer = 0; layer < texture.depthOrArrayLayers; layer++) {
+			const buffer = device.createBuffer({
+				label: `readback ${texture.label}`,
+				size: alignedRowBytes * height,
+				usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
+			});
+			const encoder = device.createCommandEncoder();
+			encoder.copyTextureToBuffer(
+				{ texture: texture, mipLevel: level, origin: [0, 0, layer] },
+				{ buffer: buffer, bytesPerRow: alignedRowBytes, rowsPerImage: height },
+				[width, height, 1],
+			);
+			device.queue.submit([encoder.finish()]);
+
+			await buffer.mapAsync(GPUMapMode.READ);
+			const mapped = new Uint8Array(buffer.getMappedRange());
+			for (let y = 0; y < height; y++) {
+				data.set(
+					mapped.subarray(y * alignedRowBytes, y * alignedRowBytes + rowBytes),
+					layer * layerBytes + y * rowBytes,
+				);
+			}
+			buffer.unmap();
+			buffer.destroy();
+		}
+		levels.push(data);
+	}
+	return {
+		label: texture.label,
+		width: texture.width,
+		height: texture.height,
+		layers: texture.depthOrArrayLayers,
+		levels: levels,
+	};
+}
+
+/**
+ * Creates an rgba16float texture with the data's contents
+ */
+export function createTextureFromData(device: GPUDevice, data: TextureData): GPUTexture {
+	const texture = device.createTexture({
+		label: data.label,
+		size: [data.width, data.height, data.layers],
+		format: "rgba16float",
+		dimension: "2d",
+		mipLevelCount: data.levels.length,
+		usage: GPUTextureUsage.COPY_SRC | GPUTextureUsage.COPY_DST | GPUTextureUsage.TEXTURE_BINDING,
+	});
+	data.levels.forEach((levelData, level) => {
+		const width = Math.max(data.width >> level, 1);
+		const height = Math.max(data.height >> level, 1);
+		device.queue.writeTexture(
+			{ texture: texture, mipLevel: level },
+			levelData,
+			{ bytesPerRow: width * BYTES_PER_PIXEL, rowsPerImage: height },
+			[width, height, data.layers],
+		);
+	});
+	return texture;
+}
@@ -1,22 +1,83 @@
 import "./wasm_exec";
 import init from "./main.wasm?init";
+import {
+	ConnectionStatus,
+	ErrorCode,
+	NO_CLIENT_ID,
+	Opcode,
+	ProtocolError,
+	peekOpcode,
+	postProtocolMessage,
+	type MessageTarget,
+} from "../Protocol";
 
-onmessage = (e: MessageEvent) => {
-	console.log("wasm wrapper received ", e.data);
-	// input and stuff will go here prolly
+const global = globalThis as any;
+const main = globalThis as unknown as MessageTarget;
+
+const postError = (e: unknown) => {
+	postProtocolMessage(main, {
+		opcode: Opcode.Error,
+		code: e instanceof ProtocolError ? e.code : ErrorCode.Unknown,
+		message: e instanceof Error ? e.message : String(e),
+	});
 };
 
-const global = globalThis as any;
+// messages from the main thread are validated and forwarded to the server as-is
+onmessage = (e: MessageEvent<ArrayBuffer>) => {
+	try {
+		const opcode = peekOpcode(e.data);
+		if (opcode !== Opcode.Input) {
+			throw new ProtocolError(ErrorCode.InvalidMessage, `Worker cannot forward ${Opcode[opcode]} messages`);
+		}
+		if (typeof global.sendSocketMessage !== "function") {
+			throw new ProtocolError(ErrorCode.SocketError, "The wasm socket bridge isn't running");
+		}
+		global.sendSocketMessage(new Uint8Array(e.data));
+	} catch (e) {
+		postError(e);
+	}
+};
 
 global.onSocketOpen = () => {
-	postMessage("socket open");
+	postProtocolMessage(main, {
+		opcode: Opcode.ConnectionStatus,
+		status: ConnectionStatus.Open,
+		clientId: NO_CLIENT_ID,
+	});
 };
 
 global.onSocketClose = () => {
-	postMessage("socket closed");
+	postProtocolMessage(main, {
+		opcode: Opcode.ConnectionStatus,
+		status: ConnectionStatus.Closed,
+		clientId: NO_CLIENT_ID,
+	});
+};
+
+global.onSocketError = () => {
+	postProtocolMessage(main, { opcode: Opcode.Error, code: ErrorCode.SocketError, message: "Socket error" });
+};
+
+// messages from the server are validated and transferred to the main thread without copying
+global.onSocketMessage = (data: Uint8Array) => {
+	try {
+		const buffer =
+			data.byteOffset === 0 && data.byteLength === data.buffer.byteLength
+				? (data.buffer as ArrayBuffer)
+				: data.slice().buffer;
+		peekOpcode(buffer);
+		main.postMessage(buffer, { transfer: [buffer] });
+	} catch (e) {
+		postError(e);
+	}
 };
 
 const runWasm = async () => {
+	postProtocolMessage(main, {
+		opcode: Opcode.ConnectionStatus,
+		status: ConnectionStatus.Connecting,
+		clientId: NO_CLIENT_ID,
+	});
 	// @ts-ignore
 	const go = new Go();
 	go.run(await init(go.importObject));
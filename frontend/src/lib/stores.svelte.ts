@@ -2,10 +2,47 @@ import { SHADOW_SETTINGS } from "$game/Renderer";
 
 export const gameStats = $state<{
 	fps: number;
+	// fraction of the canvas size the scene is drawn at
+	renderScale: number;
+	// whether input is being recorded
+	recording: boolean;
 	passes: {
 		[key: string]: number;
 	};
 }>({
 	fps: 0,
+	renderScale: 1,
+	recording: false,
 	passes: {},
 });
+
+export type LoadingTaskState = {
+	label: string;
+	// total is 0 while unknown
+	loaded: number;
+	total: number;
+	unit: "bytes" | "steps";
+	// whether the first frame waits for the task
+	required: boolean;
+};
+
+export type LoadingFailure = {
+	label: string;
+	error: string;
+};
+
+export const loadingState = $state<{
+	// the tasks still running
+	tasks: LoadingTaskState[];
+	// required tasks that have finished, for the overall progress
+	finishedRequired: number;
+	// optional tasks that failed, until they're dismissed
+	failures: LoadingFailure[];
+	// a failure that stops the game from loading, e.g. no WebGPU support or a required task failing
+	error: string | null;
+}>({
+	tasks: [],
+	finishedRequired: 0,
+	failures: [],
+	error: null,
+});
@@ -1,9 +1,12 @@
 import { sveltekit } from '@sveltejs/kit/vite';
-import { defineConfig } from 'vite';
+import { defineConfig } from 'vitest/config';
 import wasm from "vite-plugin-wasm";
 import topLevelAwait from "vite-plugin-top-level-await";
 import glsl from 'vite-plugin-glsl';
 
 export default defineConfig({
-	plugins: [sveltekit(), wasm(), topLevelAwait(), glsl()]
+	plugins: [sveltekit(), wasm(), topLevelAwait(), glsl()],
+	test: {
+		include: ['src/**/*.{test,spec}.{js,ts}']
+	}
 });
\ No newline at end of file
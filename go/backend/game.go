@@ -3,8 +3,6 @@ package main
 import (
 	"log"
 	"time"
-
-	"github.com/lxzan/gws"
 )
 
 const (
@@ -53,8 +51,6 @@ inbound:
 		}
 	}
 
-	g.hub.broadcast <- &OutboundMessage{
-		Opcode:  gws.OpcodeBinary,
-		Payload: []uint8{1, 2, 3},
-	}
+	// Clients decode every binary message with the protocol in frontend/src/game/Protocol.ts, so nothing is
+	// broadcast until the server has game state to send.
 }
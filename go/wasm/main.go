@@ -16,19 +16,27 @@ func onSocketClose(this js.Value, args []js.Value) interface{} {
 	return nil
 }
 
+func onSocketError(this js.Value, args []js.Value) interface{} {
+	js.Global().Call("onSocketError")
+	return nil
+}
+
+// onSocketMessage hands the binary server message to the worker, which validates and forwards it.
 func onSocketMessage(this js.Value, args []js.Value) interface{} {
 	buf := js.Global().Get("Uint8Array").New(args[0].Get("data"))
-	data := make([]uint8, buf.Get("length").Int())
-	js.CopyBytesToGo(data, buf)
-	// fmt.Println("received message: ", data)
+	js.Global().Call("onSocketMessage", buf)
 	return nil
 }
 
 var ws js.Value
 
-func SendSocketMessage(data []uint8) {
-	// j.Call("send", data)
-	ws.Call("send", data)
+// sendSocketMessage is called by the worker with an encoded protocol message as a Uint8Array.
+func sendSocketMessage(this js.Value, args []js.Value) interface{} {
+	if len(args) != 1 || ws.Get("readyState").Int() != 1 {
+		return nil
+	}
+	ws.Call("send", args[0])
+	return nil
 }
 
 func main() {
@@ -36,11 +44,14 @@ func main() {
 	ws.Set("binaryType", "arraybuffer")
 	ws.Call("addEventListener", "open", js.FuncOf(onSocketOpen))
 	ws.Call("addEventListener", "close", js.FuncOf(onSocketClose))
+	ws.Call("addEventListener", "error", js.FuncOf(onSocketError))
 	ws.Call("addEventListener", "message", js.FuncOf(onSocketMessage))
+	js.Global().Set("sendSocketMessage", js.FuncOf(sendSocketMessage))
 
 	defer func() {
 		ws.Call("removeEventListener", "open", js.FuncOf(onSocketOpen))
 		ws.Call("removeEventListener", "close", js.FuncOf(onSocketClose))
+		ws.Call("removeEventListener", "error", js.FuncOf(onSocketError))
 		ws.Call("removeEventListener", "message", js.FuncOf(onSocketMessage))
 	}()
 
@@ -10,11 +10,13 @@ import (
 	"math"
 	"os"
 	"path/filepath"
+	"slices"
 	"strconv"
 	"strings"
 )
 
 type Triangle struct {
+	material  string
 	flat      bool
 	hasNormal bool
 	hasUV     bool
@@ -23,6 +25,13 @@ type Triangle struct {
 	normals   [3]uint32
 }
 
+// A range of the index buffer drawn with one material
+type SubMesh struct {
+	material   string
+	firstIndex uint32
+	indexCount uint32
+}
+
 type LineType string
 
 const (
@@ -31,9 +40,19 @@ const (
 	uv     LineType = "vt"
 	normal LineType = "vn"
 	shade  LineType = "s"
+	usemtl LineType = "usemtl"
 )
 
+// The first byte of the file. Version 1 files have no version byte and start with the index size instead,
+// which never has the high bit set.
+const formatVersion uint8 = 2
+const versionFlag uint8 = 0x80
+
+// Material slot of the faces before the first usemtl
+const defaultMaterial = "default"
+
 var debug bool = false
+var tangents bool = false
 
 func readLine(scanner *bufio.Scanner) (LineType, []string, error) {
 	line := strings.TrimSpace(scanner.Text())
@@ -42,7 +61,7 @@ func readLine(scanner *bufio.Scanner) (LineType, []string, error) {
 	}
 	vals := strings.Fields(line)
 	key := LineType(vals[0])
-	if key == vertex || key == tri || key == shade || key == uv || key == normal {
+	if key == vertex || key == tri || key == shade || key == uv || key == normal || key == usemtl {
 		return key, vals[1:], nil
 	}
 	return "", nil, errors.New("unexpected/unsupported prefix: " + vals[0])
@@ -56,10 +75,11 @@ func writeIndices[I any](output *os.File, indices []uint32, indexConv func(uint3
 
 func main() {
 	flag.BoolVar(&debug, "verbose", false, "Log stats")
+	flag.BoolVar(&tangents, "tangents", false, "Generate tangents for normal mapping, requires normals and uvs")
 
 	flag.Usage = func() {
 		fmt.Println("Invalid arguments provided.")
-		fmt.Println("Usage: bin-obj <./path/to/input.obj> [<./path/to/output.bin.obj>] [--verbose | --v]")
+		fmt.Println("Usage: bin-obj [--tangents] <./path/to/input.obj> [<./path/to/output.bin.obj>] [--verbose | --v]")
 	}
 	flag.Parse()
 
@@ -99,6 +119,8 @@ func main() {
 	uvs := make([]float32, 0)
 	triangles := make([]Triangle, 0)
 	shadeFlat := false
+	material := defaultMaterial
+	materials := make([]string, 0) // in order of first use
 	hasColor := false
 	hasUV := false
 	hasNormal := false
@@ -114,6 +136,12 @@ func main() {
 				os.Exit(1)
 			}
 			shadeFlat = vals[0] == "0"
+		case usemtl:
+			if len(vals) != 1 || len(vals[0]) > math.MaxUint8 {
+				fmt.Println("Error: usemtl must have a single name of at most 255 bytes.")
+				os.Exit(1)
+			}
+			material = vals[0]
 		case vertex:
 			if len(vals) != 3 && len(vals) != 6 {
 				fmt.Println("Error: vertex must have 3 or 6 values.")
@@ -182,6 +210,7 @@ func main() {
 			}
 			slashCount := strings.Count(vals[0], "/")
 			tri := Triangle{
+				material:  material,
 				flat:      shadeFlat,
 				hasNormal: slashCount == 2,
 				hasUV:     slashCount >= 1 && !strings.Contains(vals[0], "//"),
@@ -230,6 +259,9 @@ func main() {
 				}
 			}
 			triangles = append(triangles, tri)
+			if !slices.Contains(materials, material) {
+				materials = append(materials, material)
+			}
 		}
 	}
 
@@ -247,61 +279,83 @@ func main() {
 	vertexBuffer := make([]float32, 0)
 	vertexBufferMap := make(map[uint32]uint32) // maps the obj's vertex index to the index in the vertex buffer
 	indices := make([]uint32, 0)
-	var index uint32 = 0
 	var maxIndex uint32 = 0
+	subMeshes := make([]SubMesh, 0, len(materials))
 
-	// Add the smooth shaded triangles to the final buffer.
-	// We're assuming that smooth shaded triangles' vertices share the same normal and uv
-	for _, tri := range triangles {
-		if tri.flat {
-			continue
-		}
-		for i := 0; i < 3; i++ {
-			vertexIndex := tri.vertices[i]
-			if index, ok := vertexBufferMap[vertexIndex]; ok {
-				indices = append(indices, index)
-				maxIndex = max(maxIndex, index)
-				index += 1
+	// Each material's triangles are added together, so they can be drawn as one range of the index buffer
+	for _, material := range materials {
+		firstIndex := uint32(len(indices))
+
+		// Add the smooth shaded triangles to the final buffer.
+		// We're assuming that smooth shaded triangles' vertices share the same normal and uv
+		for _, tri := range triangles {
+			if tri.flat || tri.material != material {
 				continue
 			}
-			indices = append(indices, index)
-			maxIndex = max(maxIndex, index)
-			vertexBufferMap[vertexIndex] = index
-			vertexBuffer = append(vertexBuffer, vertices[vertexIndex*3:vertexIndex*3+3]...)
-			if hasColor {
-				vertexBuffer = append(vertexBuffer, colors[vertexIndex*3:vertexIndex*3+3]...)
+			for i := 0; i < 3; i++ {
+				vertexIndex := tri.vertices[i]
+				if index, ok := vertexBufferMap[vertexIndex]; ok {
+					indices = append(indices, index)
+					continue
+				}
+				index := uint32(len(vertexBuffer) / vertexLen)
+				indices = append(indices, index)
+				maxIndex = max(maxIndex, index)
+				vertexBufferMap[vertexIndex] = index
+				vertexBuffer = append(vertexBuffer, vertices[vertexIndex*3:vertexIndex*3+3]...)
+				if hasColor {
+					vertexBuffer = append(vertexBuffer, colors[vertexIndex*3:vertexIndex*3+3]...)
+				}
+				if hasNormal {
+					vertexBuffer = append(vertexBuffer, normals[tri.normals[i]*3:tri.normals[i]*3+3]...)
+				}
+				if hasUV {
+					vertexBuffer = append(vertexBuffer, uvs[tri.uvs[i]*2:tri.uvs[i]*2+2]...)
+				}
 			}
-			if hasNormal {
-				vertexBuffer = append(vertexBuffer, normals[tri.normals[i]*3:tri.normals[i]*3+3]...)
+		}
+		// Add the flat shaded triangles to the final buffer.
+		// Each flat triangle needs its own vertex to keep the flat shading.
+		for _, tri := range triangles {
+			if !tri.flat || tri.material != material {
+				continue
 			}
-			if hasUV {
-				vertexBuffer = append(vertexBuffer, uvs[tri.uvs[i]*2:tri.uvs[i]*2+2]...)
+			for i := 0; i < 3; i++ {
+				vertexIndex := tri.vertices[i]
+				index := uint32(len(vertexBuffer) / vertexLen)
+				indices = append(indices, index)
+				maxIndex = max(maxIndex, index)
+				vertexBuffer = append(vertexBuffer, vertices[vertexIndex*3:vertexIndex*3+3]...)
+				if hasColor {
+					vertexBuffer = append(vertexBuffer, colors[vertexIndex*3:vertexIndex*3+3]...)
+				}
+				if hasNormal {
+					vertexBuffer = append(vertexBuffer, normals[tri.normals[i]*3:tri.normals[i]*3+3]...)
+				}
+				if hasUV {
+					vertexBuffer = append(vertexBuffer, uvs[tri.uvs[i]*2:tri.uvs[i]*2+2]...)
+				}
 			}
-			index += 1
 		}
+
+		subMeshes = append(subMeshes, SubMesh{
+			material:   material,
+			firstIndex: firstIndex,
+			indexCount: uint32(len(indices)) - firstIndex,
+		})
 	}
-	// Add the flat shaded triangles to the final buffer.
-	// Each flat triangle needs its own vertex to keep the flat shading.
-	for _, tri := range triangles {
-		if !tri.flat {
-			continue
+
+	var vertexTangents []float32
+	if tangents {
+		if !hasNormal || !hasUV {
+			fmt.Println("Error: tangents require both normals and uvs.")
+			os.Exit(1)
 		}
-		for i := 0; i < 3; i++ {
-			vertexIndex := tri.vertices[i]
-			index := uint32(len(vertexBuffer) / vertexLen)
-			indices = append(indices, index)
-			maxIndex = max(maxIndex, index)
-			vertexBuffer = append(vertexBuffer, vertices[vertexIndex*3:vertexIndex*3+3]...)
-			if hasColor {
-				vertexBuffer = append(vertexBuffer, colors[vertexIndex*3:vertexIndex*3+3]...)
-			}
-			if hasNormal {
-				vertexBuffer = append(vertexBuffer, normals[tri.normals[i]*3:tri.normals[i]*3+3]...)
-			}
-			if hasUV {
-				vertexBuffer = append(vertexBuffer, uvs[tri.uvs[i]*2:tri.uvs[i]*2+2]...)
-			}
+		normalOffset := 3
+		if hasColor {
+			normalOffset += 3
 		}
+		vertexTangents = computeTangents(vertexBuffer, vertexLen, indices, normalOffset, normalOffset+3)
 	}
 
 	var indexBytes uint8
@@ -337,14 +391,26 @@ func main() {
 		componentMask |= 1
 		vertexPackedLen += 1
 	}
+	if tangents {
+		componentMask |= 8
+		vertexPackedLen += 1
+	}
 
 	// Write output file
+	binary.Write(output, binary.LittleEndian, versionFlag|formatVersion)
 	binary.Write(output, binary.LittleEndian, indexBytes)
 	binary.Write(output, binary.LittleEndian, componentMask)
 	binary.Write(output, binary.LittleEndian, scaleFactor)
 	binary.Write(output, binary.LittleEndian, center)
 	binary.Write(output, binary.LittleEndian, uint32(len(vertexBuffer)*vertexPackedLen/vertexLen))
 	binary.Write(output, binary.LittleEndian, uint32(len(indices)))
+	binary.Write(output, binary.LittleEndian, uint16(len(subMeshes)))
+	for _, subMesh := range subMeshes {
+		binary.Write(output, binary.LittleEndian, subMesh.firstIndex)
+		binary.Write(output, binary.LittleEndian, subMesh.indexCount)
+		binary.Write(output, binary.LittleEndian, uint8(len(subMesh.material)))
+		output.WriteString(subMesh.material)
+	}
 	for i := 0; i < len(vertexBuffer); i += vertexLen {
 		x := uint16((float64(vertexBuffer[i]-center[0])*scaleFactor + 0.5) * float64(math.MaxUint16))
 		y := uint16((float64(vertexBuffer[i+1]-center[1])*scaleFactor + 0.5) * float64(math.MaxUint16))
@@ -369,6 +435,17 @@ func main() {
 			v := uint16(vertexBuffer[run+1] * 65535.0)
 			binary.Write(output, binary.LittleEndian, uint32(u)<<16|uint32(v))
 		}
+		if tangents { // pack as xyz-10_10_10, with the lowest bit set for a negative bitangent sign
+			t := vertexTangents[i/vertexLen*4 : i/vertexLen*4+4]
+			tx := uint32((t[0] + 1.0) * 0.5 * 1023.0)
+			ty := uint32((t[1] + 1.0) * 0.5 * 1023.0)
+			tz := uint32((t[2] + 1.0) * 0.5 * 1023.0)
+			sign := uint32(0)
+			if t[3] < 0 {
+				sign = 1
+			}
+			binary.Write(output, binary.LittleEndian, tx<<22|ty<<12|tz<<2|sign)
+		}
 	}
 	switch indexBytes {
 	case 1:
@@ -389,6 +466,8 @@ func main() {
 		log.Println("has color: ", hasColor)
 		log.Println("has uv: ", hasUV)
 		log.Println("has normal: ", hasNormal)
+		log.Println("has tangent: ", tangents)
+		log.Println("sub-meshes: ", len(subMeshes))
 		log.Println("vertex count: ", len(vertexBuffer)/vertexLen)
 		log.Println("triangle count: ", len(indices)/3)
 		log.Println("index byte size: ", indexBytes)
@@ -400,6 +479,76 @@ func main() {
 	fmt.Printf("Wrote to %s\n", path)
 }
 
+// Computes a tangent for each vertex from the uv directions of its triangles, orthogonalized against the normal.
+// Returns 4 values per vertex: the tangent and the bitangent sign.
+func computeTangents(vertexBuffer []float32, vertexLen int, indices []uint32, normalOffset int, uvOffset int) []float32 {
+	vertexCount := len(vertexBuffer) / vertexLen
+	tan := make([]float64, vertexCount*3)
+	bitan := make([]float64, vertexCount*3)
+	for i := 0; i+2 < len(indices); i += 3 {
+		var p [3][3]float64
+		var uv [3][2]float64
+		for j := 0; j < 3; j++ {
+			v := int(indices[i+j]) * vertexLen
+			for k := 0; k < 3; k++ {
+				p[j][k] = float64(vertexBuffer[v+k])
+			}
+			uv[j][0] = float64(vertexBuffer[v+uvOffset])
+			uv[j][1] = float64(vertexBuffer[v+uvOffset+1])
+		}
+		du1, dv1 := uv[1][0]-uv[0][0], uv[1][1]-uv[0][1]
+		du2, dv2 := uv[2][0]-uv[0][0], uv[2][1]-uv[0][1]
+		det := du1*dv2 - du2*dv1
+		if math.Abs(det) < 1e-12 {
+			continue
+		}
+		r := 1.0 / det
+		for j := 0; j < 3; j++ {
+			for k := 0; k < 3; k++ {
+				e1 := p[1][k] - p[0][k]
+				e2 := p[2][k] - p[0][k]
+				tan[int(indices[i+j])*3+k] += (e1*dv2 - e2*dv1) * r
+				bitan[int(indices[i+j])*3+k] += (e2*du1 - e1*du2) * r
+			}
+		}
+	}
+
+	out := make([]float32, vertexCount*4)
+	for v := 0; v < vertexCount; v++ {
+		n := vertexBuffer[v*vertexLen+normalOffset : v*vertexLen+normalOffset+3]
+		t := tan[v*3 : v*3+3]
+		b := bitan[v*3 : v*3+3]
+		// gram-schmidt, so the tangent is perpendicular to the normal
+		nDotT := float64(n[0])*t[0] + float64(n[1])*t[1] + float64(n[2])*t[2]
+		tx := t[0] - float64(n[0])*nDotT
+		ty := t[1] - float64(n[1])*nDotT
+		tz := t[2] - float64(n[2])*nDotT
+		length := math.Sqrt(tx*tx + ty*ty + tz*tz)
+		if length < 1e-12 {
+			// no uv gradient, pick any direction perpendicular to the normal
+			tx, ty, tz = float64(n[2]), 0, -float64(n[0])
+			if math.Abs(float64(n[1])) > 0.99 {
+				tx, ty, tz = 1, 0, 0
+			}
+			length = math.Sqrt(tx*tx + ty*ty + tz*tz)
+		}
+		tx, ty, tz = tx/length, ty/length, tz/length
+		// handedness from whether the bitangent agrees with cross(n, t)
+		cx := float64(n[1])*tz - float64(n[2])*ty
+		cy := float64(n[2])*tx - float64(n[0])*tz
+		cz := float64(n[0])*ty - float64(n[1])*tx
+		sign := float32(1.0)
+		if cx*b[0]+cy*b[1]+cz*b[2] < 0 {
+			sign = -1.0
+		}
+		out[v*4] = float32(tx)
+		out[v*4+1] = float32(ty)
+		out[v*4+2] = float32(tz)
+		out[v*4+3] = sign
+	}
+	return out
+}
+
 // func cross(v1 []float32, v2 []float32) []float32 {
 // 	return []float32{
 // 		v1[1]*v2[2] - v1[2]*v2[1],